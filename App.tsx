@@ -1,36 +1,79 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { generateBlogPost, fetchAndInjectImages } from './services/geminiService';
+import { generateBlogPost, fetchAndInjectImages, fetchDraft, fetchImageProviders, regenerateSection, verifyDigestLink } from './services/apiClient';
+import type { ImageProviderId, ImageProviderInfo } from './services/images';
+import type { DigestLink } from './services/linkTokens';
+import BatchPanel from './components/BatchPanel';
 import BlogPostDisplay from './components/BlogPostDisplay';
+import ErrorPanel from './components/ErrorPanel';
 import ImageKeywordEditor from './components/ImageKeywordEditor';
+import PostLibrary from './components/PostLibrary';
+import TemplateManager from './components/TemplateManager';
+import { DATE_RANGE_OPTIONS, GENERATION_STAGE_OPTIONS, LANGUAGE_OPTIONS, LENGTH_OPTIONS, LENGTH_PRESETS, TEMPLATE_OPTIONS } from './constants';
+import { ServiceError, classifyImageError } from './services/errors';
+import { addPost, updatePost, type LibraryPost, type NewLibraryPost } from './services/postLibrary';
+import { migrateLegacySources } from './services/sources';
+import { loadCustomTemplates, saveCustomTemplates } from './services/templateStore';
+import type { BlogResult, CitationStyle, CustomTemplate, DateRange, GenerationProgress, Language, LengthPreset, LengthTarget, Source, Template } from './types';
 
 type Theme = 'light' | 'dark';
-type DateRange = 'all' | 'day' | 'week' | 'month' | 'year';
-type Template = 'default' | 'review' | 'interview' | 'qa' | 'investment';
 type GenerationPhase = 'idle' | 'generating' | 'awaitingImageConfirmation' | 'fetchingImages' | 'complete';
 
-interface BlogResult {
-  title: string;
-  post: string;
-  tags: string[];
-  imageKeywords?: string[];
-  originalPost?: string; // 이미지가 없는 원본 포스트
-}
-
 interface PendingBlogResult extends BlogResult {
   imageKeywords: string[];
 }
 
+// Next wider search window offered after a search found no news
+const WIDER_DATE_RANGE: Partial<Record<DateRange, DateRange>> = { day: 'week', week: 'month', month: 'year', year: 'all' };
+
+const DEFAULT_IMAGE_PROVIDERS: ImageProviderInfo[] = [
+  { id: 'pexels', label: 'Pexels', configured: true },
+  { id: 'unsplash', label: 'Unsplash', configured: true },
+  { id: 'local', label: '자체 이미지', configured: true },
+];
+
 const App: React.FC = () => {
   const [keyword, setKeyword] = useState<string>('');
   const [dateRange, setDateRange] = useState<DateRange>('all');
   const [template, setTemplate] = useState<Template>('default');
+  const [language, setLanguage] = useState<Language>(() => (localStorage.getItem('language') as Language | null) || 'ko');
+  const [lengthPreset, setLengthPreset] = useState<LengthPreset>('standard');
+  const [customLength, setCustomLength] = useState<LengthTarget>(LENGTH_PRESETS.standard);
   const [blogResult, setBlogResult] = useState<BlogResult | null>(null);
   const [pendingBlogResult, setPendingBlogResult] = useState<PendingBlogResult | null>(null);
   const [generationPhase, setGenerationPhase] = useState<GenerationPhase>('idle');
+  // Partial post while the generation streams in; cleared once it finishes
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   const [error, setError] = useState<string>('');
+  // Classified failures, shown with recovery actions
+  const [generationError, setGenerationError] = useState<ServiceError | null>(null);
+  const [imageFailure, setImageFailure] = useState<{ error: ServiceError; keywords: string[] } | null>(null);
   const [theme, setTheme] = useState<Theme>('dark');
+  const [imageProviders, setImageProviders] = useState<ImageProviderInfo[]>(DEFAULT_IMAGE_PROVIDERS);
+  const [imageProviderOrder, setImageProviderOrder] = useState<ImageProviderId[]>(() => {
+    const saved = localStorage.getItem('imageProviderOrder');
+    return saved ? JSON.parse(saved) : ['pexels'];
+  });
+  const [isLibraryOpen, setIsLibraryOpen] = useState<boolean>(false);
+  const [isBatchOpen, setIsBatchOpen] = useState<boolean>(false);
+  const [libraryVersion, setLibraryVersion] = useState<number>(0);
+  const [currentPostId, setCurrentPostId] = useState<string | null>(null);
+  const [customTemplates, setCustomTemplates] = useState<CustomTemplate[]>(loadCustomTemplates);
+  const [isTemplateManagerOpen, setIsTemplateManagerOpen] = useState<boolean>(false);
   
   const isLoading = generationPhase === 'generating' || generationPhase === 'fetchingImages';
+  const keywordInputRef = React.useRef<HTMLInputElement>(null);
+  // Aborts the generation or image search in progress
+  const abortControllerRef = React.useRef<AbortController | null>(null);
+
+  const startCancellable = (): AbortSignal => {
+    abortControllerRef.current = new AbortController();
+    return abortControllerRef.current.signal;
+  };
+
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+  const lengthTarget = lengthPreset === 'custom' ? customLength : LENGTH_PRESETS[lengthPreset];
 
   useEffect(() => {
     const savedTheme = localStorage.getItem('theme') as Theme | null;
@@ -48,91 +91,302 @@ const App: React.FC = () => {
     localStorage.setItem('theme', theme);
   }, [theme]);
 
+  useEffect(() => {
+    fetchImageProviders()
+      .then(providers => {
+        setImageProviders(providers);
+        // Drop providers the server cannot use
+        setImageProviderOrder(prev => prev.filter(id => providers.some(p => p.id === id && p.configured)));
+      })
+      .catch(err => console.error('Failed to load image providers:', err));
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('imageProviderOrder', JSON.stringify(imageProviderOrder));
+  }, [imageProviderOrder]);
+
+  useEffect(() => {
+    localStorage.setItem('language', language);
+  }, [language]);
+
+  useEffect(() => {
+    saveCustomTemplates(customTemplates);
+    // Fall back to the default template if the selected one was deleted
+    if (template.startsWith('custom:') && !customTemplates.some(custom => custom.id === template)) {
+      setTemplate('default');
+    }
+  }, [customTemplates, template]);
+
+  const handleTemplateChange = (value: Template) => {
+    setTemplate(value);
+    // A custom template's own length becomes the starting point for this generation
+    const custom = customTemplates.find(item => item.id === value);
+    if (custom?.length) {
+      setLengthPreset('custom');
+      setCustomLength(custom.length);
+    }
+  };
+
   const toggleTheme = () => {
     setTheme(prevTheme => (prevTheme === 'light' ? 'dark' : 'light'));
   };
 
-  // Auto-start generation if query params exist
+  // Library persistence failures are logged but never block the generation flow
+  const saveNewPost = useCallback(async (entry: NewLibraryPost) => {
+    try {
+      const saved = await addPost(entry);
+      setCurrentPostId(saved.id);
+      setLibraryVersion(v => v + 1);
+    } catch (err) {
+      console.error('Failed to save post to library:', err);
+    }
+  }, []);
+
+  const savePostChanges = useCallback(async (changes: Partial<NewLibraryPost>) => {
+    if (!currentPostId) return;
+    try {
+      await updatePost(currentPostId, changes);
+      setLibraryVersion(v => v + 1);
+    } catch (err) {
+      console.error('Failed to update post in library:', err);
+    }
+  }, [currentPostId]);
+
+  // Auto-start from a digest email link. Links are signed and expire, and the
+  // server checks them before anything is generated or opened.
   const autoStartRef = React.useRef(false);
 
   useEffect(() => {
     if (autoStartRef.current) return;
 
     const params = new URLSearchParams(window.location.search);
+    const linkParam = params.get('link');
     const keywordParam = params.get('keyword');
-    const autoParam = params.get('auto');
-
-    console.log('Auto-start check:', { keywordParam, autoParam });
-
-    if (keywordParam && (autoParam === 'true' || autoParam === '1')) {
-      autoStartRef.current = true;
-      setKeyword(keywordParam);
-
-      (async () => {
-        console.log('Starting auto-generation for:', keywordParam);
-        setGenerationPhase('generating');
-        setError('');
-        setBlogResult(null);
-        setPendingBlogResult(null);
-        try {
-          const result = await generateBlogPost(keywordParam, 'all', 'default');
-          console.log('Auto-generation result:', result);
-          // Store pending result and show image keyword editor
-          setPendingBlogResult({
-            title: result.title,
-            post: result.post,
-            tags: result.tags,
-            imageKeywords: result.imageKeywords || []
-          });
-          setGenerationPhase('awaitingImageConfirmation');
-        } catch (err) {
-          console.error('Auto-generation error:', err);
-          const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-          setError(`글 생성에 실패했습니다: ${errorMessage}`);
+
+    if (!linkParam) {
+      // Unsigned links only prefill the keyword; generation is started by hand
+      if (keywordParam) setKeyword(keywordParam);
+      return;
+    }
+
+    autoStartRef.current = true;
+    // Reloading should neither repeat the generation nor import the same draft again
+    window.history.replaceState(null, '', window.location.pathname);
+
+    const openDraft = async () => {
+      const draft = await fetchDraft(linkParam);
+      setKeyword(draft.keyword);
+      setDateRange(draft.dateRange);
+      setTemplate(draft.template);
+      setLanguage(draft.language || 'ko');
+      setBlogResult({
+        title: draft.title,
+        post: draft.post,
+        tags: draft.tags,
+        imageKeywords: draft.imageKeywords,
+        sources: draft.sources || [],
+        originalPost: draft.originalPost,
+        language: draft.language,
+        lengthTarget: draft.lengthTarget
+      });
+      setGenerationPhase('complete');
+      saveNewPost({
+        keyword: draft.keyword,
+        dateRange: draft.dateRange,
+        template: draft.template,
+        title: draft.title,
+        post: draft.post,
+        originalPost: draft.originalPost,
+        tags: draft.tags,
+        imageKeywords: draft.imageKeywords,
+        sources: draft.sources || [],
+        language: draft.language,
+        lengthTarget: draft.lengthTarget
+      });
+    };
+
+    const generateFromLink = async (link: Extract<DigestLink, { action: 'generate' }>) => {
+      // The subscriber's custom template must exist in this browser; otherwise the default is used
+      const autoCustomTemplate = customTemplates.find(custom => custom.id === link.template);
+      const autoTemplate: Template = autoCustomTemplate?.id || TEMPLATE_OPTIONS.find(option => option.value === link.template)?.value || 'default';
+      setKeyword(link.keyword);
+      setTemplate(autoTemplate);
+      setLanguage(link.language);
+
+      console.log('Starting auto-generation for:', link.keyword);
+      const result = await generateBlogPost(link.keyword, 'all', autoTemplate, {
+        customTemplate: autoCustomTemplate,
+        language: link.language,
+        onProgress: setGenerationProgress,
+        signal,
+      }).finally(() => setGenerationProgress(null));
+      console.log('Auto-generation result:', result);
+      // Store pending result and show image keyword editor
+      setPendingBlogResult({
+        title: result.title,
+        post: result.post,
+        tags: result.tags,
+        imageKeywords: result.imageKeywords || [],
+        sources: result.sources || [],
+        language: result.language,
+        lengthTarget: result.lengthTarget
+      });
+      setGenerationPhase('awaitingImageConfirmation');
+      saveNewPost({
+        keyword: link.keyword,
+        dateRange: 'all',
+        template: autoTemplate,
+        title: result.title,
+        post: result.post,
+        originalPost: result.post,
+        tags: result.tags,
+        imageKeywords: result.imageKeywords || [],
+        sources: result.sources || [],
+        language: result.language,
+        lengthTarget: result.lengthTarget
+      });
+    };
+
+    const signal = startCancellable();
+
+    (async () => {
+      setGenerationPhase('generating');
+      setError('');
+      setGenerationError(null);
+      setBlogResult(null);
+      setPendingBlogResult(null);
+      setCurrentPostId(null);
+
+      let link: DigestLink;
+      try {
+        link = await verifyDigestLink(linkParam);
+      } catch (err) {
+        // The server explains expired and tampered links in a message meant for the reader
+        setError(err instanceof Error ? err.message : '링크를 확인하지 못했습니다.');
+        setGenerationPhase('idle');
+        return;
+      }
+
+      try {
+        if (link.action === 'draft') {
+          await openDraft();
+        } else {
+          await generateFromLink(link);
+        }
+      } catch (err) {
+        if (signal.aborted) {
           setGenerationPhase('idle');
+          return;
         }
-      })();
-    }
+        console.error('Auto-generation error:', err);
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        if (err instanceof ServiceError) {
+          setGenerationError(err);
+        } else {
+          setError(link.action === 'draft' ? `초안을 불러오지 못했습니다: ${errorMessage}` : `글 생성에 실패했습니다: ${errorMessage}`);
+        }
+        setGenerationPhase('idle');
+      }
+    })();
   }, []);
 
-  const handleGenerateClick = useCallback(async () => {
+  const runGeneration = useCallback(async (range: DateRange) => {
     if (!keyword.trim()) {
       setError('키워드를 입력해주세요.');
       return;
     }
+    if (!(lengthTarget.min > 0 && lengthTarget.max >= lengthTarget.min)) {
+      setError('분량 범위가 올바르지 않습니다.');
+      return;
+    }
     setGenerationPhase('generating');
     setError('');
+    setGenerationError(null);
+    setImageFailure(null);
     setBlogResult(null);
     setPendingBlogResult(null);
+    setCurrentPostId(null);
+    const signal = startCancellable();
 
     try {
-      const result = await generateBlogPost(keyword, dateRange, template);
+      const customTemplate = customTemplates.find(custom => custom.id === template);
+      const result = await generateBlogPost(keyword, range, template, {
+        customTemplate,
+        language,
+        length: lengthTarget,
+        onProgress: setGenerationProgress,
+        signal,
+      }).finally(() => setGenerationProgress(null));
       // Store pending result and show image keyword editor
       setPendingBlogResult({
         title: result.title,
         post: result.post,
         tags: result.tags,
-        imageKeywords: result.imageKeywords || []
+        imageKeywords: result.imageKeywords || [],
+        sources: result.sources || [],
+        language: result.language,
+        lengthTarget: result.lengthTarget
       });
       setGenerationPhase('awaitingImageConfirmation');
+      saveNewPost({
+        keyword,
+        dateRange: range,
+        template,
+        title: result.title,
+        post: result.post,
+        originalPost: result.post,
+        tags: result.tags,
+        imageKeywords: result.imageKeywords || [],
+        sources: result.sources || [],
+        language: result.language,
+        lengthTarget: result.lengthTarget
+      });
     } catch (err) {
+      if (signal.aborted) {
+        setGenerationPhase('idle');
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`글 생성에 실패했습니다: ${errorMessage}`);
+      if (err instanceof ServiceError) {
+        setGenerationError(err);
+      } else {
+        setError(`글 생성에 실패했습니다: ${errorMessage}`);
+      }
       console.error(err);
       setGenerationPhase('idle');
     }
-  }, [keyword, dateRange, template]);
+  }, [keyword, template, language, lengthTarget, customTemplates, saveNewPost]);
+
+  const handleGenerateClick = useCallback(() => runGeneration(dateRange), [runGeneration, dateRange]);
+
+  const handleWidenDateRange = useCallback(() => {
+    const wider = WIDER_DATE_RANGE[dateRange];
+    if (!wider) return;
+    setDateRange(wider);
+    runGeneration(wider);
+  }, [dateRange, runGeneration]);
+
+  const handleEditKeyword = useCallback(() => {
+    setGenerationError(null);
+    keywordInputRef.current?.focus();
+    keywordInputRef.current?.select();
+  }, []);
 
   const handleImageConfirm = useCallback(async (imageKeywords: string[]) => {
     if (!pendingBlogResult) return;
     
     setGenerationPhase('fetchingImages');
+    setImageFailure(null);
+    const signal = startCancellable();
     
     try {
       const { post: postWithImages } = await fetchAndInjectImages(
         pendingBlogResult.post,
         imageKeywords,
-        keyword
+        keyword,
+        imageProviderOrder,
+        pendingBlogResult.language,
+        signal
       );
       
       setBlogResult({
@@ -140,27 +394,32 @@ const App: React.FC = () => {
         post: postWithImages,
         tags: pendingBlogResult.tags,
         imageKeywords: imageKeywords,
-        originalPost: pendingBlogResult.post // 원본 포스트 저장
+        sources: pendingBlogResult.sources,
+        citationStyle: pendingBlogResult.citationStyle,
+        originalPost: pendingBlogResult.post, // 원본 포스트 저장
+        language: pendingBlogResult.language,
+        lengthTarget: pendingBlogResult.lengthTarget
       });
       setPendingBlogResult(null);
       setGenerationPhase('complete');
+      savePostChanges({ post: postWithImages, originalPost: pendingBlogResult.post, imageKeywords });
     } catch (err) {
+      // Cancelling the search goes back to the keyword editor
+      if (signal.aborted) {
+        setGenerationPhase('awaitingImageConfirmation');
+        return;
+      }
       console.error('Image fetch error:', err);
-      // Even if image fetch fails, show the post without images
-      setBlogResult({
-        title: pendingBlogResult.title,
-        post: pendingBlogResult.post,
-        tags: pendingBlogResult.tags,
-        imageKeywords: imageKeywords,
-        originalPost: pendingBlogResult.post
-      });
-      setPendingBlogResult(null);
-      setGenerationPhase('complete');
+      // Keep the post pending so the editor can retry or continue without images
+      setImageFailure({ error: classifyImageError(err), keywords: imageKeywords });
+      setPendingBlogResult({ ...pendingBlogResult, imageKeywords });
+      setGenerationPhase('awaitingImageConfirmation');
     }
-  }, [pendingBlogResult, keyword]);
+  }, [pendingBlogResult, keyword, imageProviderOrder, savePostChanges]);
 
   const handleImageSkip = useCallback(() => {
     if (!pendingBlogResult) return;
+    setImageFailure(null);
     
     // Complete without images
     setBlogResult({
@@ -168,11 +427,16 @@ const App: React.FC = () => {
       post: pendingBlogResult.post,
       tags: pendingBlogResult.tags,
       imageKeywords: [],
-      originalPost: pendingBlogResult.post
+      sources: pendingBlogResult.sources,
+      citationStyle: pendingBlogResult.citationStyle,
+      originalPost: pendingBlogResult.post,
+      language: pendingBlogResult.language,
+      lengthTarget: pendingBlogResult.lengthTarget
     });
     setPendingBlogResult(null);
     setGenerationPhase('complete');
-  }, [pendingBlogResult]);
+    savePostChanges({ post: pendingBlogResult.post, originalPost: pendingBlogResult.post });
+  }, [pendingBlogResult, savePostChanges]);
 
   const handleRegenerateImages = useCallback(() => {
     if (!blogResult) return;
@@ -185,24 +449,116 @@ const App: React.FC = () => {
       title: blogResult.title,
       post: originalPost,
       tags: blogResult.tags,
-      imageKeywords: blogResult.imageKeywords || []
+      imageKeywords: blogResult.imageKeywords || [],
+      sources: blogResult.sources,
+      citationStyle: blogResult.citationStyle,
+      language: blogResult.language,
+      lengthTarget: blogResult.lengthTarget
     });
     setBlogResult(null);
+    setImageFailure(null);
     setGenerationPhase('awaitingImageConfirmation');
   }, [blogResult]);
 
-  const LoadingSpinner: React.FC<{ phase: GenerationPhase }> = ({ phase }) => (
+  const handlePostEdit = useCallback((post: string) => {
+    if (!blogResult) return;
+    // Drop the image-free original so regenerating images keeps the edited text
+    setBlogResult({ ...blogResult, post, originalPost: undefined });
+    savePostChanges({ post, originalPost: undefined });
+  }, [blogResult, savePostChanges]);
+
+  const handleSourcesChange = useCallback((sources: Source[], post: string) => {
+    if (!blogResult) return;
+    // Removing a source renumbers the citation markers, which makes the image-free original stale
+    const originalPost = post === blogResult.post ? blogResult.originalPost : undefined;
+    setBlogResult({ ...blogResult, sources, post, originalPost });
+    savePostChanges({ sources, post, originalPost });
+  }, [blogResult, savePostChanges]);
+
+  const handleCitationStyleChange = useCallback((citationStyle: CitationStyle) => {
+    if (!blogResult) return;
+    setBlogResult({ ...blogResult, citationStyle });
+    savePostChanges({ citationStyle });
+  }, [blogResult, savePostChanges]);
+
+  const handleRegenerateSection = useCallback((section: string, instruction: string, context: string) => {
+    const signal = startCancellable();
+    return regenerateSection(keyword, blogResult?.title || '', context, section, instruction, blogResult?.language, signal);
+  }, [keyword, blogResult]);
+
+  const handleOpenLibraryPost = useCallback((saved: LibraryPost) => {
+    setKeyword(saved.keyword);
+    setDateRange(saved.dateRange);
+    setTemplate(saved.template);
+    setLanguage(saved.language || 'ko');
+    // Posts saved before sources were structured carry the references block in their HTML
+    const { post, sources } = migrateLegacySources(saved.post, saved.sources);
+    setBlogResult({
+      title: saved.title,
+      post,
+      tags: saved.tags,
+      imageKeywords: saved.imageKeywords,
+      sources,
+      citationStyle: saved.citationStyle,
+      originalPost: saved.originalPost && migrateLegacySources(saved.originalPost).post,
+      language: saved.language,
+      lengthTarget: saved.lengthTarget
+    });
+    setPendingBlogResult(null);
+    setCurrentPostId(saved.id);
+    setError('');
+    setGenerationPhase('complete');
+    setIsLibraryOpen(false);
+  }, []);
+
+  // A batch item generated without images continues in the same keyword review step as a single post
+  const handleReviewBatchPost = useCallback((saved: LibraryPost) => {
+    setKeyword(saved.keyword);
+    setDateRange(saved.dateRange);
+    setTemplate(saved.template);
+    setLanguage(saved.language || 'ko');
+    setPendingBlogResult({
+      title: saved.title,
+      post: saved.post,
+      tags: saved.tags,
+      imageKeywords: saved.imageKeywords || [],
+      sources: saved.sources || [],
+      citationStyle: saved.citationStyle,
+      language: saved.language,
+      lengthTarget: saved.lengthTarget
+    });
+    setBlogResult(null);
+    setCurrentPostId(saved.id);
+    setError('');
+    setGenerationPhase('awaitingImageConfirmation');
+    setIsBatchOpen(false);
+  }, []);
+
+  const handleOpenBatchPost = useCallback((saved: LibraryPost) => {
+    handleOpenLibraryPost(saved);
+    setIsBatchOpen(false);
+  }, [handleOpenLibraryPost]);
+
+  const handleLibraryPostDeleted = useCallback((id: string) => {
+    if (id === currentPostId) {
+      setCurrentPostId(null);
+    }
+  }, [currentPostId]);
+
+  const LoadingSpinner: React.FC<{ phase: GenerationPhase; progress?: GenerationProgress | null }> = ({ phase, progress }) => (
     <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400">
       <div className="w-12 h-12 border-4 border-t-transparent border-cyan-500 rounded-full animate-spin"></div>
       {phase === 'generating' ? (
         <>
-          <p className="mt-4 text-lg">블로그 글을 생성하고 있습니다...</p>
+          <p className="mt-4 text-lg">
+            {progress ? `${GENERATION_STAGE_OPTIONS.find(option => option.value === progress.stage)?.label}...` : '블로그 글을 생성하고 있습니다...'}
+          </p>
           <p className="text-sm">Gemini AI가 최신 뉴스를 검색하고 분석하는 데 시간이 걸릴 수 있습니다.</p>
         </>
       ) : (
         <>
           <p className="mt-4 text-lg">이미지를 검색하고 있습니다...</p>
-          <p className="text-sm">Pexels에서 관련 이미지를 찾고 있습니다.</p>
+          <p className="text-sm">선택한 이미지 소스에서 관련 이미지를 찾고 있습니다.</p>
         </>
       )}
     </div>
@@ -211,6 +567,25 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-800 dark:text-gray-100 flex flex-col p-4 md:p-8 transition-colors duration-300">
       <header className="w-full max-w-5xl mx-auto text-center mb-8 relative">
+        <button
+          onClick={() => setIsLibraryOpen(true)}
+          className="absolute top-0 left-0 p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label="글 보관함 열기"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+          </svg>
+        </button>
+        <button
+          onClick={() => setIsBatchOpen(true)}
+          className="absolute top-0 left-12 p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+          aria-label="일괄 생성 열기"
+          title="일괄 생성"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h10M4 18h10m4-4v6m-3-3h6" />
+          </svg>
+        </button>
         <h1 className="text-4xl font-bold text-gray-900 dark:text-white">뉴스 기반 블로그 포스트 생성기</h1>
         <p className="text-lg text-gray-500 dark:text-gray-400 mt-2">Gemini AI를 사용하여 최신 뉴스로 블로그 글 자동 생성</p>
         <button
@@ -233,6 +608,7 @@ const App: React.FC = () => {
       <main className="w-full max-w-5xl mx-auto flex flex-col flex-grow">
         <div className="flex flex-col md:flex-row gap-4 mb-6">
           <input
+            ref={keywordInputRef}
             type="text"
             value={keyword}
             onChange={(e) => setKeyword(e.target.value)}
@@ -248,25 +624,84 @@ const App: React.FC = () => {
             disabled={isLoading}
             aria-label="뉴스 검색 기간"
           >
-            <option value="all">전체 기간</option>
-            <option value="day">지난 24시간</option>
-            <option value="week">지난 1주</option>
-            <option value="month">지난 1개월</option>
-            <option value="year">지난 1년</option>
+            {DATE_RANGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value as Language)}
+            className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition"
+            disabled={isLoading}
+            aria-label="작성 언어"
+          >
+            {LANGUAGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <select
+            value={lengthPreset}
+            onChange={(e) => setLengthPreset(e.target.value as LengthPreset)}
+            className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition"
+            disabled={isLoading}
+            aria-label="글 분량"
+          >
+            {LENGTH_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
           </select>
+          {lengthPreset === 'custom' && (
+            <div className="flex items-center gap-1 shrink-0">
+              <input
+                type="number"
+                min={500}
+                step={500}
+                value={customLength.min}
+                onChange={(e) => setCustomLength({ ...customLength, min: Number(e.target.value) })}
+                className="w-24 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-3 py-3 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition"
+                disabled={isLoading}
+                aria-label="최소 분량 (자)"
+              />
+              <span className="text-gray-500">~</span>
+              <input
+                type="number"
+                min={500}
+                step={500}
+                value={customLength.max}
+                onChange={(e) => setCustomLength({ ...customLength, max: Number(e.target.value) })}
+                className="w-24 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-3 py-3 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition"
+                disabled={isLoading}
+                aria-label="최대 분량 (자)"
+              />
+              <span className="text-sm text-gray-500">자</span>
+            </div>
+          )}
           <select
             value={template}
-            onChange={(e) => setTemplate(e.target.value as Template)}
+            onChange={(e) => handleTemplateChange(e.target.value as Template)}
             className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-cyan-500 transition"
             disabled={isLoading}
             aria-label="블로그 템플릿"
           >
-            <option value="default">기본 뉴스 분석</option>
-            <option value="review">제품/서비스 리뷰</option>
-            <option value="interview">전문가 인터뷰 형식</option>
-            <option value="qa">Q&A 형식</option>
-            <option value="investment">투자전략 보고서</option>
+            {TEMPLATE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+            {customTemplates.length > 0 && (
+              <optgroup label="내 템플릿">
+                {customTemplates.map(custom => (
+                  <option key={custom.id} value={custom.id}>{custom.name}</option>
+                ))}
+              </optgroup>
+            )}
           </select>
+          <button
+            onClick={() => setIsTemplateManagerOpen(true)}
+            disabled={isLoading}
+            className="px-4 py-3 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+            aria-label="템플릿 관리"
+          >
+            템플릿 관리
+          </button>
           <button
             onClick={handleGenerateClick}
             disabled={isLoading}
@@ -284,11 +719,29 @@ const App: React.FC = () => {
               '블로그 글 생성'
             )}
           </button>
+          {isLoading && (
+            <button
+              onClick={handleCancel}
+              className="px-6 py-3 bg-white dark:bg-gray-800 border border-red-300 dark:border-red-800 text-red-600 dark:text-red-400 font-semibold rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors shrink-0"
+              aria-label={generationPhase === 'fetchingImages' ? '이미지 검색 취소' : '글 생성 취소'}
+            >
+              취소
+            </button>
+          )}
         </div>
 
         <div className="flex-grow bg-white/50 dark:bg-gray-800/50 rounded-lg shadow-2xl backdrop-blur-sm border border-gray-300 dark:border-gray-700 p-0 min-h-[500px] flex flex-col">
-          {generationPhase === 'generating' || generationPhase === 'fetchingImages' ? (
-            <LoadingSpinner phase={generationPhase} />
+          {generationPhase === 'generating' && (generationProgress?.title || generationProgress?.post) ? (
+            <BlogPostDisplay
+              title={generationProgress.title || ''}
+              post={generationProgress.post || ''}
+              tags={[]}
+              language={language}
+              lengthTarget={lengthTarget}
+              stage={generationProgress.stage}
+            />
+          ) : generationPhase === 'generating' || generationPhase === 'fetchingImages' ? (
+            <LoadingSpinner phase={generationPhase} progress={generationProgress} />
           ) : error ? (
             <div className="flex items-center justify-center h-full">
               <div className="text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/50 p-4 rounded-lg text-center">
@@ -296,6 +749,17 @@ const App: React.FC = () => {
                 <p>{error}</p>
               </div>
             </div>
+          ) : generationError ? (
+            <div className="flex items-center justify-center h-full p-4">
+              <ErrorPanel
+                error={generationError}
+                actions={{
+                  retry: handleGenerateClick,
+                  widenDateRange: WIDER_DATE_RANGE[dateRange] ? handleWidenDateRange : undefined,
+                  editKeyword: handleEditKeyword,
+                }}
+              />
+            </div>
           ) : generationPhase === 'awaitingImageConfirmation' && pendingBlogResult ? (
             <div className="flex flex-col h-full">
               {/* Preview of generated content */}
@@ -304,15 +768,33 @@ const App: React.FC = () => {
                   title={pendingBlogResult.title} 
                   post={pendingBlogResult.post} 
                   tags={pendingBlogResult.tags} 
+                  language={pendingBlogResult.language}
+                  lengthTarget={pendingBlogResult.lengthTarget}
+                  sources={pendingBlogResult.sources}
+                  citationStyle={pendingBlogResult.citationStyle}
                 />
               </div>
               {/* Image keyword editor overlay */}
               <div className="shrink-0 p-4 border-t border-gray-300 dark:border-gray-700 bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm">
+                {imageFailure && (
+                  <div className="flex justify-center mb-4">
+                    <ErrorPanel
+                      error={imageFailure.error}
+                      actions={{
+                        retry: () => handleImageConfirm(imageFailure.keywords),
+                        continueWithoutImages: handleImageSkip,
+                      }}
+                    />
+                  </div>
+                )}
                 <ImageKeywordEditor
                   keywords={pendingBlogResult.imageKeywords}
                   onConfirm={handleImageConfirm}
                   onSkip={handleImageSkip}
                   isLoading={false}
+                  providers={imageProviders}
+                  providerOrder={imageProviderOrder}
+                  onProviderOrderChange={setImageProviderOrder}
                 />
               </div>
             </div>
@@ -321,7 +803,17 @@ const App: React.FC = () => {
               title={blogResult.title} 
               post={blogResult.post} 
               tags={blogResult.tags}
+              keyword={keyword}
+              language={blogResult.language}
+              lengthTarget={blogResult.lengthTarget}
+              sources={blogResult.sources}
+              citationStyle={blogResult.citationStyle}
               onRegenerateImages={blogResult.imageKeywords && blogResult.imageKeywords.length > 0 ? handleRegenerateImages : undefined}
+              onPostChange={handlePostEdit}
+              onSourcesChange={handleSourcesChange}
+              onCitationStyleChange={handleCitationStyleChange}
+              onRegenerateSection={handleRegenerateSection}
+              onCancelRegenerateSection={handleCancel}
             />
           ) : (
             <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-500">
@@ -330,6 +822,34 @@ const App: React.FC = () => {
           )}
         </div>
       </main>
+
+      <PostLibrary
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        refreshKey={libraryVersion}
+        activePostId={currentPostId}
+        onOpenPost={handleOpenLibraryPost}
+        onPostDeleted={handleLibraryPostDeleted}
+        customTemplates={customTemplates}
+      />
+
+      <BatchPanel
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        defaults={{ template, dateRange, language, length: lengthTarget }}
+        customTemplates={customTemplates}
+        imageProviderOrder={imageProviderOrder}
+        onOpenPost={handleOpenBatchPost}
+        onReviewPost={handleReviewBatchPost}
+        onLibraryChange={() => setLibraryVersion(v => v + 1)}
+      />
+
+      <TemplateManager
+        isOpen={isTemplateManagerOpen}
+        templates={customTemplates}
+        onChange={setCustomTemplates}
+        onClose={() => setIsTemplateManagerOpen(false)}
+      />
     </div>
   );
 };
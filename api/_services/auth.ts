@@ -0,0 +1,11 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Checks an "Authorization: Bearer <secret>" header, compared in constant time.
+ * Vercel Cron sends CRON_SECRET this way; /api/publish expects PUBLISH_SECRET.
+ */
+export function isAuthorized(authorization: unknown, secret: string): boolean {
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const actual = Buffer.from(typeof authorization === 'string' ? authorization : '');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,315 @@
+import type { DigestSubscriber } from '../../services/digestConfig';
+import { pickFreshTitles, type DigestHistoryStore } from '../../services/digestHistory';
+import { getDraftStore, type StoredDraft } from '../../services/draftStore';
+import { fetchAndInjectImages, generateBlogPost } from '../../services/geminiService';
+import { escapeHtml } from '../../services/html';
+import { getLanguageConfig } from '../../services/languages';
+import { signLinkToken } from '../../services/linkTokens';
+import { getLlmProvider } from '../../services/llm';
+import { extractBodyText } from '../../services/postLength';
+import type { Language } from '../../types';
+
+/**
+ * Builds the daily digest email, shared by the cron job that sends it and the preview route
+ */
+
+// A pre-generated draft for one idea; error is set when generation failed and the idea keeps its plain link
+export interface DigestDraft {
+    idea: string;
+    id?: string;
+    title?: string;
+    excerpt?: string;
+    tags?: string[];
+    error?: string;
+}
+
+export interface TopicIdeas {
+    topic: string;
+    titles: string[];
+    error?: string;
+    drafts?: DigestDraft[];
+    /** Candidates dropped as near-duplicates of recently sent ideas or of another topic's */
+    duplicates?: string[];
+}
+
+export interface DigestEmail {
+    subject: string;
+    html: string;
+    topics: TopicIdeas[];
+}
+
+export interface DigestBuilder {
+    /** Collects ideas and drafts for one subscriber and renders the email; failed topics and drafts are recorded in topics */
+    build: (subscriber: DigestSubscriber) => Promise<DigestEmail>;
+}
+
+export interface SubscriberResult {
+    email: string;
+    status: 'sent' | 'skipped' | 'failed';
+    topics: TopicIdeas[];
+    error?: string;
+}
+
+const EXCERPT_LENGTH = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DEDUP_DAYS = 7;
+// Extra candidates requested per topic so dropped duplicates can be replaced
+const MAX_CANDIDATES = 20;
+
+/**
+ * Generates one draft and stores it for the email link. Custom templates live
+ * in the browser, so those subscribers get drafts in the default template.
+ */
+async function createDraft(idea: string, subscriber: DigestSubscriber): Promise<StoredDraft> {
+    const template = subscriber.template.startsWith('custom:') ? 'default' : subscriber.template;
+    const result = await generateBlogPost(idea, 'day', template, { language: subscriber.language });
+    const imageKeywords = result.imageKeywords || [];
+
+    let post = result.post;
+    if (subscriber.draftImages && imageKeywords.length > 0) {
+        try {
+            post = (await fetchAndInjectImages(result.post, imageKeywords, idea, undefined, result.language)).post;
+        } catch (error) {
+            // A draft without images is still worth sending
+            console.error(`Failed to add images to the draft for "${idea}":`, error);
+        }
+    }
+
+    return getDraftStore().save({
+        keyword: idea,
+        dateRange: 'day',
+        template,
+        title: result.title,
+        post,
+        originalPost: result.post,
+        tags: result.tags,
+        imageKeywords,
+        sources: result.sources,
+        language: result.language,
+        lengthTarget: result.lengthTarget,
+    });
+}
+
+/**
+ * Picks the top ideas across topics, taking each topic's best idea before
+ * anyone's second, so every beat gets a draft when the count allows
+ */
+function pickDraftIdeas(topics: TopicIdeas[], count: number): { topic: TopicIdeas; idea: string }[] {
+    const picks: { topic: TopicIdeas; idea: string }[] = [];
+    for (let rank = 0; picks.length < count && topics.some(topic => topic.titles.length > rank); rank++) {
+        for (const topic of topics) {
+            if (picks.length < count && topic.titles[rank]) {
+                picks.push({ topic, idea: topic.titles[rank] });
+            }
+        }
+    }
+    return picks;
+}
+
+function summarizeDraft(idea: string, draft: StoredDraft): DigestDraft {
+    const text = extractBodyText(draft.post);
+    return {
+        idea,
+        id: draft.id,
+        title: draft.title,
+        excerpt: text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…` : text,
+        tags: draft.tags,
+    };
+}
+
+function renderDigestHtml(subscriber: DigestSubscriber, topics: TopicIdeas[], baseUrl: string): string {
+    const sections = topics.map(({ topic, titles, error, drafts, duplicates }) => {
+        if (titles.length === 0) {
+            const note = error
+                ? 'Ideas for this topic could not be fetched today.'
+                : duplicates ? 'No new stories since your recent digests.' : 'No trending news found for this topic today.';
+            return `
+        <h2 style="color: #333; font-size: 18px; margin-top: 24px;">${escapeHtml(topic)}</h2>
+        <p style="color: #888;">${note}</p>
+      `;
+        }
+
+        const listItems = titles.map((title, index) => {
+            const draft = drafts?.find(item => item.idea === title && item.id);
+            if (draft) {
+                return `
+            <li style="margin-bottom: 16px;">
+                <a href="${baseUrl}/?link=${signLinkToken({ action: 'draft', draftId: draft.id! })}" style="font-size: 16px; color: #0070f3; text-decoration: none;">
+                    ${index + 1}. ${escapeHtml(draft.title!)}
+                </a>
+                <span style="font-size: 11px; color: #fff; background: #10b981; border-radius: 4px; padding: 1px 6px; margin-left: 4px;">Draft ready</span>
+                <p style="margin: 4px 0; color: #555; font-size: 14px;">${escapeHtml(draft.excerpt!)}</p>
+                <p style="margin: 0; color: #888; font-size: 12px;">${draft.tags!.map(tag => `#${escapeHtml(tag)}`).join(' ')}</p>
+            </li>
+        `;
+            }
+
+            const token = signLinkToken({ action: 'generate', keyword: title, template: subscriber.template, language: subscriber.language });
+            return `
+            <li style="margin-bottom: 10px;">
+                <a href="${baseUrl}/?link=${token}" style="font-size: 16px; color: #0070f3; text-decoration: none;">
+                    ${index + 1}. ${escapeHtml(title)}
+                </a>
+            </li>
+        `;
+        }).join('');
+
+        return `
+        <h2 style="color: #333; font-size: 18px; margin-top: 24px;">${escapeHtml(topic)}</h2>
+        <ul style="list-style-type: none; padding: 0;">
+          ${listItems}
+        </ul>
+      `;
+    }).join('');
+
+    return `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h1 style="color: #333;">Daily Blog Ideas</h1>
+        <p>${subscriber.name ? `Hi ${escapeHtml(subscriber.name)}, here` : 'Here'} are today's trending topics for your beats. ${topics.some(({ drafts }) => drafts?.some(draft => draft.id)) ? 'Drafts marked ready open straight in the editor; click any other idea to generate a blog post:' : 'Click one to generate a blog post:'}</p>
+        ${sections}
+        <p style="color: #888; font-size: 12px; margin-top: 20px;">
+          Sent by AutoBlogByGoogleAI
+        </p>
+      </div>
+    `;
+}
+
+// A title search should not hold up the whole run; override with DIGEST_TITLES_TIMEOUT_MS
+const DEFAULT_TITLES_TIMEOUT_MS = 60000;
+
+// Helper to generate titles using the configured LLM provider (simplified version of geminiService)
+async function getTrendingTitles(topic: string, count: number, language: Language): Promise<string[]> {
+    const prompt = `
+    Find ${count} trending news titles related to "${topic}" from the last 24 hours.
+    Write the titles in ${getLanguageConfig(language).englishName}.
+    Return ONLY the titles as a JSON array of strings. Do not include markdown formatting like \`\`\`json.
+    Example: ["Title 1", "Title 2", ...]
+  `;
+
+    // responseSchema cannot be used together with search grounding
+    const response = await getLlmProvider().generate({
+        prompt,
+        useSearch: true,
+        timeoutMs: Number(process.env.DIGEST_TITLES_TIMEOUT_MS) || DEFAULT_TITLES_TIMEOUT_MS,
+    });
+
+    const text = response.text;
+    if (!text) return [];
+
+    try {
+        // Remove markdown code blocks if present
+        const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+        const parsed = JSON.parse(cleanText);
+        return Array.isArray(parsed) ? parsed.filter((title): title is string => typeof title === 'string').slice(0, count) : [];
+    } catch (e) {
+        console.error("Failed to parse JSON from LLM response", e);
+        // Fallback: try to extract lines that look like titles if JSON fails
+        return text.split('\n').filter(line => line.trim().length > 0).slice(0, count);
+    }
+}
+
+/**
+ * Creates a builder for one run. Subscribers sharing a beat reuse one search
+ * per topic, count and language, and one draft per idea. Set drafts to false
+ * to skip draft generation, e.g. for a cheap preview. With a history store,
+ * ideas close to ones the subscriber got in the last DIGEST_DEDUP_DAYS (default 7) are replaced.
+ */
+export function createDigestBuilder(options: { baseUrl: string; drafts?: boolean; history?: DigestHistoryStore }): DigestBuilder {
+    const { baseUrl, drafts = true, history } = options;
+    const dedupDays = Number(process.env.DIGEST_DEDUP_DAYS ?? DEFAULT_DEDUP_DAYS);
+
+    const titleRequests = new Map<string, Promise<string[]>>();
+    const fetchTitles = (topic: string, count: number, language: Language) => {
+        const key = `${language}:${count}:${topic.toLowerCase()}`;
+        if (!titleRequests.has(key)) {
+            titleRequests.set(key, getTrendingTitles(topic, count, language));
+        }
+        return titleRequests.get(key)!;
+    };
+    const draftRequests = new Map<string, Promise<StoredDraft>>();
+    const fetchDraft = (idea: string, subscriber: DigestSubscriber) => {
+        const key = `${subscriber.language}:${subscriber.template}:${subscriber.draftImages}:${idea}`;
+        if (!draftRequests.has(key)) {
+            draftRequests.set(key, createDraft(idea, subscriber));
+        }
+        return draftRequests.get(key)!;
+    };
+
+    return {
+        async build(subscriber) {
+            // Ideas already sent recently, plus those picked for earlier topics of this email
+            const seen: string[] = [];
+            if (history && dedupDays > 0) {
+                try {
+                    const recent = await history.list({ since: Date.now() - dedupDays * DAY_MS, email: subscriber.email });
+                    recent.forEach(record => record.topics.forEach(({ titles }) => seen.push(...titles)));
+                } catch (error) {
+                    // Without history the digest may repeat a story, which beats not sending it
+                    console.error('Failed to read digest history:', error);
+                }
+            }
+
+            const topics: TopicIdeas[] = [];
+            for (const topic of subscriber.topics) {
+                try {
+                    const candidateCount = Math.min(MAX_CANDIDATES, subscriber.ideaCount * 2);
+                    const candidates = await fetchTitles(topic, candidateCount, subscriber.language);
+                    const { titles, dropped } = pickFreshTitles(candidates, seen, subscriber.ideaCount);
+                    seen.push(...titles);
+                    topics.push({ topic, titles, ...(dropped.length > 0 && { duplicates: dropped }) });
+                } catch (error: any) {
+                    console.error(`Failed to fetch titles for "${topic}":`, error);
+                    topics.push({ topic, titles: [], error: error.message });
+                }
+            }
+
+            // Drafts are generated in parallel; a failed one falls back to the plain link
+            const draftCount = drafts ? subscriber.draftCount : 0;
+            await Promise.all(pickDraftIdeas(topics, draftCount).map(async ({ topic, idea }) => {
+                let draft: DigestDraft;
+                try {
+                    draft = summarizeDraft(idea, await fetchDraft(idea, subscriber));
+                } catch (error: any) {
+                    console.error(`Failed to generate a draft for "${idea}":`, error);
+                    draft = { idea, error: error.message };
+                }
+                topic.drafts = [...(topic.drafts || []), draft];
+            }));
+
+            return {
+                subject: `Daily Blog Ideas: ${subscriber.topics.join(', ')}`,
+                html: renderDigestHtml(subscriber, topics, baseUrl),
+                topics,
+            };
+        },
+    };
+}
+
+/**
+ * Wraps a digest body in a standalone page for the preview route
+ */
+export function renderPreviewDocument({ subject, html }: DigestEmail): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body>
+${html}
+</body>
+</html>`;
+}
+
+/**
+ * APP_URL if set, otherwise the host the request came in on, without a trailing slash
+ */
+export function resolveBaseUrl(req: any): string {
+    let baseUrl = process.env.APP_URL;
+    if (!baseUrl) {
+        const protocol = req.headers['x-forwarded-proto'] || 'https';
+        const host = req.headers.host;
+        baseUrl = `${protocol}://${host}`;
+    }
+    return baseUrl.replace(/\/$/, '');
+}
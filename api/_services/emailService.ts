@@ -1,25 +1,124 @@
+import fs from 'fs';
+import path from 'path';
 import nodemailer from 'nodemailer';
+import type SMTPTransport from 'nodemailer/lib/smtp-transport';
 
-const transporter = nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-        user: process.env.GMAIL_USER,
-        pass: process.env.GMAIL_APP_PASSWORD,
-    },
-});
-
-export async function sendEmail(to: string, subject: string, html: string) {
-    const mailOptions = {
-        from: process.env.GMAIL_USER,
-        to,
-        subject,
-        html,
+export type MailTransportId = 'gmail' | 'smtp' | 'outbox';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    html: string;
+}
+
+export interface MailDelivery {
+    messageId: string;
+    /** Files written by the outbox transport */
+    files?: string[];
+}
+
+export interface MailTransport {
+    id: MailTransportId;
+    send: (message: MailMessage) => Promise<MailDelivery>;
+}
+
+/**
+ * Sends through a nodemailer SMTP transport, e.g. Gmail with an app password or any SMTP relay
+ */
+function createSmtpTransport(id: 'gmail' | 'smtp', options: SMTPTransport.Options, from: string): MailTransport {
+    const transporter = nodemailer.createTransport(options);
+    return {
+        id,
+        async send({ to, subject, html }) {
+            const info = await transporter.sendMail({ from, to, subject, html });
+            console.log('Email sent: ' + info.response);
+            return { messageId: info.messageId };
+        },
+    };
+}
+
+/**
+ * Renders each message to an .eml file (the exact MIME message) and an .html
+ * file (the body, for a browser) in a local directory instead of sending it
+ */
+export function createOutboxTransport(directory: string, from: string): MailTransport {
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    return {
+        id: 'outbox',
+        async send({ to, subject, html }) {
+            const info = await transporter.sendMail({ from, to, subject, html });
+            const base = `${new Date().toISOString().replace(/[:.]/g, '-')}-${to.replace(/[^\w.@-]+/g, '_')}`;
+            const files = [path.join(directory, `${base}.eml`), path.join(directory, `${base}.html`)];
+
+            fs.mkdirSync(directory, { recursive: true });
+            fs.writeFileSync(files[0], info.message as Buffer);
+            fs.writeFileSync(files[1], html);
+            console.log(`Email to ${to} written to ${files[0]}`);
+            return { messageId: info.messageId, files };
+        },
     };
+}
+
+/**
+ * Builds the transport selected by MAIL_TRANSPORT ('gmail' | 'smtp' | 'outbox').
+ * Without it, Gmail is used as before and missing Gmail settings are an error; the
+ * outbox only writes local files, so it must be chosen explicitly.
+ */
+function createTransportFromEnv(): MailTransport {
+    const env = process.env;
+    const id = env.MAIL_TRANSPORT || 'gmail';
+
+    switch (id) {
+        case 'gmail':
+            if (!env.GMAIL_USER || !env.GMAIL_APP_PASSWORD) {
+                throw new Error('GMAIL_USER and GMAIL_APP_PASSWORD environment variables must be set');
+            }
+            return createSmtpTransport('gmail', {
+                service: 'gmail',
+                auth: { user: env.GMAIL_USER, pass: env.GMAIL_APP_PASSWORD },
+            }, env.MAIL_FROM || env.GMAIL_USER);
+        case 'smtp': {
+            if (!env.SMTP_HOST) {
+                throw new Error('SMTP_HOST environment variable not set');
+            }
+            const port = Number(env.SMTP_PORT) || 587;
+            return createSmtpTransport('smtp', {
+                host: env.SMTP_HOST,
+                port,
+                // Port 465 speaks TLS from the start; others upgrade with STARTTLS
+                secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+                auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASSWORD } : undefined,
+            }, env.MAIL_FROM || env.SMTP_USER || `digest@${env.SMTP_HOST}`);
+        }
+        case 'outbox':
+            return createOutboxTransport(env.MAIL_OUTBOX_DIR || 'data/outbox', env.MAIL_FROM || 'digest@localhost');
+        default:
+            throw new Error(`Unknown MAIL_TRANSPORT: ${id}`);
+    }
+}
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * Returns the process-wide mail transport, creating it from the environment on first use
+ */
+export function getMailTransport(): MailTransport {
+    if (!activeTransport) {
+        activeTransport = createTransportFromEnv();
+    }
+    return activeTransport;
+}
+
+/**
+ * Overrides the process-wide transport, e.g. with an outbox in a test run
+ */
+export function setMailTransport(transport: MailTransport | null): void {
+    activeTransport = transport;
+}
 
+export async function sendEmail(to: string, subject: string, html: string): Promise<MailDelivery> {
     try {
-        const info = await transporter.sendMail(mailOptions);
-        console.log('Email sent: ' + info.response);
-        return info;
+        return await getMailTransport().send({ to, subject, html });
     } catch (error) {
         console.error('Error sending email:', error);
         throw error;
@@ -0,0 +1,27 @@
+import { TimeoutError } from '../../services/retry';
+
+/**
+ * Returns a signal that aborts when the client disconnects before the response
+ * is finished, so a cancelled request stops calling Gemini and the image APIs.
+ * With a deadline it also aborts with a TimeoutError before the platform's
+ * maxDuration would kill the function, so the route can still answer.
+ */
+export function abortOnDisconnect(res: any, deadline?: { label: string; ms: number }): AbortSignal {
+    const controller = new AbortController();
+    const timer = deadline
+        ? setTimeout(() => controller.abort(new TimeoutError(deadline.label, deadline.ms)), deadline.ms)
+        : undefined;
+    res.on('close', () => {
+        clearTimeout(timer);
+        if (!res.writableFinished) {
+            controller.abort();
+        }
+    });
+    return controller.signal;
+}
+
+/**
+ * Whether the client went away, as opposed to the deadline passing
+ */
+export const isDisconnected = (signal: AbortSignal): boolean =>
+    signal.aborted && !(signal.reason instanceof TimeoutError);
@@ -1,133 +1,83 @@
-import { GoogleGenAI } from "@google/genai";
-import nodemailer from 'nodemailer';
+import { isAuthorized } from '../_services/auth';
+import { createDigestBuilder, resolveBaseUrl, type SubscriberResult } from '../_services/digest';
+import { getMailTransport, sendEmail } from '../_services/emailService';
+import { getDigestSubscribers } from '../../services/digestConfig';
+import { getDigestHistoryStore } from '../../services/digestHistory';
 
-const transporter = nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-        user: process.env.GMAIL_USER,
-        pass: process.env.GMAIL_APP_PASSWORD,
-    },
-});
-
-async function sendEmail(to: string, subject: string, html: string) {
-    const mailOptions = {
-        from: process.env.GMAIL_USER,
-        to,
-        subject,
-        html,
-    };
-
-    try {
-        const info = await transporter.sendMail(mailOptions);
-        console.log('Email sent: ' + info.response);
-        return info;
-    } catch (error) {
-        console.error('Error sending email:', error);
-        throw error;
-    }
-}
-
-const API_KEY = process.env.API_KEY;
-const GMAIL_USER = process.env.GMAIL_USER;
-const DAILY_TOPIC = process.env.DAILY_TOPIC || 'AI Trends';
 const CRON_SECRET = process.env.CRON_SECRET;
 
-// Helper to generate titles using Gemini (simplified version of geminiService)
-async function getTrendingTitles(topic: string): Promise<string[]> {
-    if (!API_KEY) throw new Error("API_KEY not set");
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-    const prompt = `
-    Find 5 trending news titles related to "${topic}" from the last 24 hours.
-    Return ONLY the titles as a JSON array of strings. Do not include markdown formatting like \`\`\`json.
-    Example: ["Title 1", "Title 2", ...]
-  `;
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-            // responseMimeType: "application/json", // Cannot use with tools
-            tools: [{ googleSearch: {} }],
-        },
-    });
-
-    const text = response.text;
-    if (!text) return [];
-
-    try {
-        // Remove markdown code blocks if present
-        const cleanText = text.replace(/```json/g, '').replace(/```/g, '').trim();
-        return JSON.parse(cleanText);
-    } catch (e) {
-        console.error("Failed to parse JSON from Gemini", e);
-        // Fallback: try to extract lines that look like titles if JSON fails
-        return text.split('\n').filter(line => line.trim().length > 0).slice(0, 5);
-    }
-}
-
+// GET /api/cron/daily-digest
+// Sends each configured subscriber their digest through the mail transport (MAIL_TRANSPORT).
 export default async function handler(req: any, res: any) {
-    // 1. Authentication
-    const authHeader = req.headers.authorization;
-    if (authHeader !== `Bearer ${CRON_SECRET}`) {
-        // Allow manual testing if needed, or strictly enforce secret
-        // For now, let's check if it's a Vercel Cron request
-        // Vercel sends the secret in the Authorization header
-        if (req.query.key !== CRON_SECRET) { // Fallback for manual testing via query param
-            // return res.status(401).json({ error: 'Unauthorized' });
-        }
+    // 1. Authentication: the digest spends LLM quota and sends mail, so it never runs unauthenticated
+    if (!CRON_SECRET) {
+        console.error('CRON_SECRET is not set; refusing to run the daily digest');
+        return res.status(500).json({ error: 'CRON_SECRET is not configured' });
+    }
+    if (!isAuthorized(req.headers.authorization, CRON_SECRET)) {
+        return res.status(401).json({ error: 'Unauthorized: send "Authorization: Bearer <CRON_SECRET>"' });
     }
 
     try {
-        // 2. Get Trending Titles
-        const titles = await getTrendingTitles(DAILY_TOPIC);
-
-        if (titles.length === 0) {
-            return res.status(200).json({ message: 'No titles found.' });
+        // 2. Load subscribers
+        const subscribers = getDigestSubscribers();
+        if (subscribers.length === 0) {
+            return res.status(500).json({ error: 'No digest subscribers configured' });
         }
 
-        // 3. Construct Email HTML
-        // Use APP_URL env var if set, otherwise fall back to Vercel URL or request host
-        let baseUrl = process.env.APP_URL;
-        if (!baseUrl) {
-            const protocol = req.headers['x-forwarded-proto'] || 'https';
-            const host = req.headers.host;
-            baseUrl = `${protocol}://${host}`;
+        const history = getDigestHistoryStore();
+        const builder = createDigestBuilder({ baseUrl: resolveBaseUrl(req), history });
+        const transport = getMailTransport();
+
+        // 3. One email per subscriber; a failing topic or subscriber never stops the rest
+        const results: SubscriberResult[] = [];
+        for (const subscriber of subscribers) {
+            let digest;
+            try {
+                digest = await builder.build(subscriber);
+            } catch (error: any) {
+                console.error(`Failed to build the digest for ${subscriber.email}:`, error);
+                results.push({ email: subscriber.email, status: 'failed', topics: [], error: error.message });
+                continue;
+            }
+
+            const { subject, html, topics } = digest;
+            if (topics.every(({ titles }) => titles.length === 0)) {
+                results.push({ email: subscriber.email, status: 'skipped', topics });
+                continue;
+            }
+
+            try {
+                await sendEmail(subscriber.email, subject, html);
+                results.push({ email: subscriber.email, status: 'sent', topics });
+            } catch (error: any) {
+                results.push({ email: subscriber.email, status: 'failed', topics, error: error.message });
+                continue;
+            }
+
+            // Only sent ideas count as seen; a lost history write only risks a repeat tomorrow
+            try {
+                await history.record({
+                    sentAt: Date.now(),
+                    email: subscriber.email,
+                    subject,
+                    topics: topics.map(({ topic, titles, drafts }) => ({
+                        topic,
+                        titles,
+                        draftIds: (drafts || []).flatMap(draft => (draft.id ? [draft.id] : [])),
+                    })),
+                });
+            } catch (error) {
+                console.error(`Failed to record the digest for ${subscriber.email}:`, error);
+            }
         }
-        // Ensure no trailing slash
-        baseUrl = baseUrl.replace(/\/$/, '');
-
-        const listItems = titles.map((title, index) => {
-            const link = `${baseUrl}/?keyword=${encodeURIComponent(title)}&auto=true`;
-            return `
-            <li style="margin-bottom: 10px;">
-                <a href="${link}" style="font-size: 16px; color: #0070f3; text-decoration: none;">
-                    ${index + 1}. ${title}
-                </a>
-            </li>
-        `;
-        }).join('');
-
-        const html = `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h1 style="color: #333;">Daily Blog Ideas: ${DAILY_TOPIC}</h1>
-        <p>Here are 5 trending topics for today. Click one to generate a blog post:</p>
-        <ul style="list-style-type: none; padding: 0;">
-          ${listItems}
-        </ul>
-        <p style="color: #888; font-size: 12px; margin-top: 20px;">
-          Sent by AutoBlogByGoogleAI
-        </p>
-      </div>
-    `;
 
-        // 4. Send Email
-        if (GMAIL_USER) {
-            await sendEmail(GMAIL_USER, `Daily Blog Ideas: ${DAILY_TOPIC}`, html);
-            return res.status(200).json({ message: 'Email sent successfully', titles });
-        } else {
-            return res.status(500).json({ error: 'GMAIL_USER not configured' });
+        const sent = results.filter(result => result.status === 'sent').length;
+        const failed = results.filter(result => result.status === 'failed').length;
+        if (sent === 0 && failed > 0) {
+            return res.status(500).json({ error: 'No digest could be sent', results });
         }
+        return res.status(200).json({ message: `Sent ${sent} of ${results.length} digests via ${transport.id}`, results });
 
     } catch (error: any) {
         console.error(error);
@@ -0,0 +1,40 @@
+import { isAuthorized } from './_services/auth';
+import { getDigestHistoryStore } from '../services/digestHistory';
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+
+// GET /api/digest-history?email=<subscriber email>&days=30
+// Lists the digests sent in the last `days` days (at most 90), newest first, optionally for one subscriber.
+// Requires the same "Authorization: Bearer <CRON_SECRET>" header as the cron job.
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        return res.status(500).json({ error: 'CRON_SECRET is not configured' });
+    }
+    if (!isAuthorized(req.headers.authorization, secret)) {
+        return res.status(401).json({ error: 'Unauthorized: send "Authorization: Bearer <CRON_SECRET>"' });
+    }
+
+    const { email, days = String(DEFAULT_DAYS) } = req.query || {};
+    const dayCount = Number(days);
+    if (!Number.isInteger(dayCount) || dayCount < 1 || dayCount > MAX_DAYS) {
+        return res.status(400).json({ error: `days must be an integer from 1 to ${MAX_DAYS}` });
+    }
+
+    try {
+        const records = await getDigestHistoryStore().list({
+            since: Date.now() - dayCount * 24 * 60 * 60 * 1000,
+            email: typeof email === 'string' && email ? email : undefined,
+        });
+        return res.status(200).json({ records });
+    } catch (error: any) {
+        console.error(error);
+        return res.status(500).json({ error: error.message });
+    }
+}
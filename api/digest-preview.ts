@@ -0,0 +1,43 @@
+import { isAuthorized } from './_services/auth';
+import { createDigestBuilder, renderPreviewDocument, resolveBaseUrl } from './_services/digest';
+import { getDigestSubscribers } from '../services/digestConfig';
+import { getDigestHistoryStore } from '../services/digestHistory';
+
+// GET /api/digest-preview?email=<subscriber email>&drafts=true
+// Renders one subscriber's digest (the first one by default) as an HTML page without sending it.
+// Drafts are skipped unless drafts=true, since each one is a full generation. Recently sent
+// ideas are filtered out as in the real run, but the preview is not recorded in the history.
+// Requires the same "Authorization: Bearer <CRON_SECRET>" header as the cron job.
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        return res.status(500).json({ error: 'CRON_SECRET is not configured' });
+    }
+    if (!isAuthorized(req.headers.authorization, secret)) {
+        return res.status(401).json({ error: 'Unauthorized: send "Authorization: Bearer <CRON_SECRET>"' });
+    }
+
+    const { email, drafts } = req.query || {};
+
+    try {
+        const subscribers = getDigestSubscribers();
+        const subscriber = typeof email === 'string' && email
+            ? subscribers.find(item => item.email.toLowerCase() === email.toLowerCase())
+            : subscribers[0];
+        if (!subscriber) {
+            return res.status(404).json({ error: email ? `No digest subscriber ${email}` : 'No digest subscribers configured' });
+        }
+
+        const digest = await createDigestBuilder({ baseUrl: resolveBaseUrl(req), drafts: drafts === 'true', history: getDigestHistoryStore() }).build(subscriber);
+        res.setHeader('Content-Type', 'text/html; charset=utf-8');
+        return res.status(200).send(renderPreviewDocument(digest));
+    } catch (error: any) {
+        console.error(error);
+        return res.status(500).json({ error: error.message });
+    }
+}
@@ -0,0 +1,35 @@
+import { getDraftStore } from '../services/draftStore';
+import { LinkTokenError, verifyLinkToken } from '../services/linkTokens';
+
+// GET /api/drafts?token=<signed digest link token>
+// Returns a draft the daily digest generated ahead of time. Only the signed link from
+// the digest email opens a draft, and only until the link expires.
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'GET') {
+        res.setHeader('Allow', 'GET');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { token } = req.query || {};
+    if (typeof token !== 'string' || !token) {
+        return res.status(400).json({ error: 'Missing link token' });
+    }
+
+    try {
+        const link = verifyLinkToken(token);
+        if (link.action !== 'draft') {
+            return res.status(400).json({ error: 'Link does not refer to a draft' });
+        }
+        const draft = await getDraftStore().get(link.draftId);
+        if (!draft) {
+            return res.status(404).json({ error: '초안을 찾을 수 없습니다.' });
+        }
+        return res.status(200).json(draft);
+    } catch (error: any) {
+        if (error instanceof LinkTokenError) {
+            return res.status(401).json({ error: error.message, reason: error.reason });
+        }
+        console.error(error);
+        return res.status(500).json({ error: error.message });
+    }
+}
@@ -0,0 +1,76 @@
+import { FAILURES, classifyError } from '../services/errors';
+import { generateBlogPost } from '../services/geminiService';
+import { isLanguage } from '../services/languages';
+import { abortOnDisconnect, isDisconnected } from './_services/requestSignal';
+
+// Stays under the 300 s maxDuration in vercel.json so a timeout is still reported
+const DEADLINE_MS = 290000;
+
+// POST /api/generate
+// Body: { keyword: string, dateRange?: string, template?: string, customTemplate?: CustomTemplate, language?: 'ko' | 'en' | 'ja', length?: { min: number, max: number }, stream?: boolean }
+// Runs the Gemini generation on the server so API keys never reach the browser.
+// With stream: true the response is newline-delimited JSON: { type: 'progress', stage, title?, post? }
+// lines while the post is written, then one { type: 'result', result } or { type: 'error', error, kind, detail } line.
+// Failures carry a kind (see services/errors.ts) so the app can offer the right recovery action.
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { keyword, dateRange = 'all', template = 'default', customTemplate, language = 'ko', length, stream } = req.body || {};
+
+    if (typeof keyword !== 'string' || !keyword.trim()) {
+        return res.status(400).json({ error: '키워드를 입력해주세요.' });
+    }
+
+    if (!isLanguage(language)) {
+        return res.status(400).json({ error: 'Unsupported language' });
+    }
+
+    if (length !== undefined && !(Number.isFinite(length?.min) && Number.isFinite(length?.max) && length.min > 0 && length.max >= length.min)) {
+        return res.status(400).json({ error: '분량 범위가 올바르지 않습니다.' });
+    }
+
+    if (customTemplate !== undefined && (
+        typeof customTemplate?.persona !== 'string' ||
+        !Array.isArray(customTemplate?.sections) ||
+        customTemplate.id !== template
+    )) {
+        return res.status(400).json({ error: 'Invalid custom template' });
+    }
+
+    // Closing the connection (the app's Cancel button) stops the generation
+    const signal = abortOnDisconnect(res, { label: 'AI 서비스', ms: DEADLINE_MS });
+
+    if (stream === true) {
+        res.status(200);
+        res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+        res.setHeader('Cache-Control', 'no-cache');
+        const send = (event: object) => res.write(`${JSON.stringify(event)}\n`);
+        try {
+            const result = await generateBlogPost(keyword.trim(), dateRange, template, {
+                customTemplate,
+                language,
+                length,
+                onProgress: progress => send({ type: 'progress', ...progress }),
+                signal,
+            });
+            send({ type: 'result', result });
+        } catch (error: any) {
+            if (isDisconnected(signal)) return res.end();
+            const failure = classifyError(signal.aborted ? signal.reason : error);
+            send({ type: 'error', error: failure.message, kind: failure.kind, detail: failure.detail });
+        }
+        return res.end();
+    }
+
+    try {
+        const result = await generateBlogPost(keyword.trim(), dateRange, template, { customTemplate, language, length, signal });
+        return res.status(200).json(result);
+    } catch (error: any) {
+        if (isDisconnected(signal)) return res.end();
+        const failure = classifyError(signal.aborted ? signal.reason : error);
+        return res.status(FAILURES[failure.kind].status).json({ error: failure.message, kind: failure.kind, detail: failure.detail });
+    }
+}
@@ -0,0 +1,43 @@
+import { FAILURES, classifyImageError } from '../services/errors';
+import { fetchAndInjectImages } from '../services/geminiService';
+import { listImageProviders } from '../services/images';
+import { isLanguage } from '../services/languages';
+import { abortOnDisconnect, isDisconnected } from './_services/requestSignal';
+
+// Stays under the 120 s maxDuration in vercel.json so a timeout is still reported
+const DEADLINE_MS = 110000;
+
+// GET /api/images
+// Lists the image providers and whether each one is configured on the server.
+//
+// POST /api/images
+// Body: { post: string, imageKeywords: string[], fallbackKeyword: string, providers?: ImageProviderId[], language?: 'ko' | 'en' | 'ja' }
+// Searches the selected image providers on the server and returns the post with images injected.
+// When a provider fails and no images are found, answers with { error, kind, detail }.
+export default async function handler(req: any, res: any) {
+    if (req.method === 'GET') {
+        return res.status(200).json({ providers: listImageProviders() });
+    }
+
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'GET, POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { post, imageKeywords = [], fallbackKeyword = '', providers, language = 'ko' } = req.body || {};
+
+    if (typeof post !== 'string' || !Array.isArray(imageKeywords) || (providers !== undefined && !Array.isArray(providers)) || !isLanguage(language)) {
+        return res.status(400).json({ error: 'Invalid request body' });
+    }
+
+    const signal = abortOnDisconnect(res, { label: '이미지 서비스', ms: DEADLINE_MS });
+    try {
+        const result = await fetchAndInjectImages(post, imageKeywords, fallbackKeyword, providers, language, signal);
+        return res.status(200).json(result);
+    } catch (error: any) {
+        if (isDisconnected(signal)) return res.end();
+        console.error(error);
+        const failure = classifyImageError(signal.aborted ? signal.reason : error);
+        return res.status(FAILURES[failure.kind].status).json({ error: failure.message, kind: failure.kind, detail: failure.detail });
+    }
+}
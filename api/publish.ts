@@ -0,0 +1,55 @@
+import { isAuthorized } from './_services/auth';
+import { publishToWordPress, UnsafeSiteUrlError, WordPressApiError } from '../services/wordpressService';
+
+// POST /api/publish
+// Body: { site: { siteUrl, username, applicationPassword }, title: string, post: string, tags?: string[], status?: 'draft' | 'publish', uploadImages?: boolean }
+// Creates the post on a WordPress site and returns { id, url, status, tagIds, mediaIds, featuredMediaId, warnings }.
+// Requires "Authorization: Bearer <PUBLISH_SECRET>"; the site must be https and public unless listed in WORDPRESS_DEV_HOSTS.
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const secret = process.env.PUBLISH_SECRET;
+    if (!secret) {
+        return res.status(500).json({ error: 'PUBLISH_SECRET is not configured' });
+    }
+    if (!isAuthorized(req.headers.authorization, secret)) {
+        return res.status(401).json({ error: '발행 키가 올바르지 않습니다.' });
+    }
+
+    const { site, title, post, tags = [], status = 'draft', uploadImages = true } = req.body || {};
+
+    if (
+        typeof site?.siteUrl !== 'string' || !site.siteUrl ||
+        typeof site?.username !== 'string' || !site.username ||
+        typeof site?.applicationPassword !== 'string' || !site.applicationPassword
+    ) {
+        return res.status(400).json({ error: 'WordPress 사이트 정보가 올바르지 않습니다.' });
+    }
+
+    if (typeof title !== 'string' || typeof post !== 'string' || !Array.isArray(tags) || !['draft', 'publish'].includes(status)) {
+        return res.status(400).json({ error: 'Invalid request body' });
+    }
+
+    try {
+        const result = await publishToWordPress(
+            { siteUrl: site.siteUrl, username: site.username, applicationPassword: site.applicationPassword },
+            // Relative image URLs (local provider) are served by this deployment. Taken from
+            // configuration, never the Host header, since images are downloaded from it.
+            { title, post, tags, status, uploadImages: uploadImages !== false, assetBaseUrl: process.env.APP_URL }
+        );
+        return res.status(200).json(result);
+    } catch (error: any) {
+        if (error instanceof UnsafeSiteUrlError) {
+            return res.status(400).json({ error: error.message });
+        }
+        console.error(error);
+        if (error instanceof WordPressApiError) {
+            return res.status(502).json({ error: error.message });
+        }
+        // Network errors can describe the target, so only the log gets the details
+        return res.status(500).json({ error: 'WordPress에 발행하지 못했습니다.' });
+    }
+}
@@ -0,0 +1,33 @@
+import { regenerateSection } from '../services/geminiService';
+import { isLanguage } from '../services/languages';
+import { abortOnDisconnect, isDisconnected } from './_services/requestSignal';
+
+// Stays under the 300 s maxDuration in vercel.json so a timeout is still reported
+const DEADLINE_MS = 290000;
+
+// POST /api/section
+// Body: { keyword: string, title: string, post: string, section: string, instruction?: string, language?: 'ko' | 'en' | 'ja' }
+// Rewrites a single <h2> section of a post and returns { section } with the new HTML.
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { keyword = '', title = '', post, section, instruction = '', language = 'ko' } = req.body || {};
+
+    if (typeof post !== 'string' || typeof section !== 'string' || !section.trim() || !isLanguage(language)) {
+        return res.status(400).json({ error: 'Invalid request body' });
+    }
+
+    const signal = abortOnDisconnect(res, { label: 'AI 서비스', ms: DEADLINE_MS });
+    try {
+        const newSection = await regenerateSection(keyword, title, post, section, instruction, language, signal);
+        return res.status(200).json({ section: newSection });
+    } catch (error: any) {
+        if (isDisconnected(signal)) return res.end();
+        console.error(error);
+        if (signal.aborted) return res.status(504).json({ error: signal.reason.message });
+        return res.status(500).json({ error: error.message });
+    }
+}
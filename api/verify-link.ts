@@ -0,0 +1,27 @@
+import { LinkTokenError, verifyLinkToken } from '../services/linkTokens';
+
+// POST /api/verify-link
+// Body: { token: string }
+// Checks the signature and expiry of a digest email link before the app acts on it,
+// and returns what the link allows: { action: 'generate', keyword, template, language } or { action: 'draft', draftId }.
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'POST') {
+        res.setHeader('Allow', 'POST');
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { token } = req.body || {};
+    if (typeof token !== 'string' || !token) {
+        return res.status(400).json({ error: 'Missing link token' });
+    }
+
+    try {
+        return res.status(200).json(verifyLinkToken(token));
+    } catch (error: any) {
+        if (error instanceof LinkTokenError) {
+            return res.status(401).json({ error: error.message, reason: error.reason });
+        }
+        console.error(error);
+        return res.status(500).json({ error: error.message });
+    }
+}
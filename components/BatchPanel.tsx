@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DATE_RANGE_OPTIONS, TEMPLATE_OPTIONS } from '../constants';
+import { fetchAndInjectImages, generateBlogPost } from '../services/apiClient';
+import { FAILURES, ServiceError } from '../services/errors';
+import { createBatchQueue, parseBatchInput, type BatchImageMode, type BatchItem, type BatchItemStatus, type BatchQueue } from '../services/batchQueue';
+import { EXPORT_FORMATS, downloadFile, exportPosts, type ExportFormat } from '../services/exporters';
+import type { ImageProviderId } from '../services/images';
+import { addPost, getPost, updatePost, type LibraryPost } from '../services/postLibrary';
+import type { CustomTemplate, DateRange, Language, LengthTarget, Template } from '../types';
+
+interface BatchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Current toolbar settings; template and date range can be overridden per line */
+  defaults: { template: Template; dateRange: DateRange; language: Language; length: LengthTarget };
+  customTemplates: CustomTemplate[];
+  imageProviderOrder: ImageProviderId[];
+  /** Shows a finished post in the main view */
+  onOpenPost: (post: LibraryPost) => void;
+  /** Opens a post in the image keyword review step */
+  onReviewPost: (post: LibraryPost) => void;
+  /** Called whenever a batch item adds or changes a library post */
+  onLibraryChange: () => void;
+}
+
+const inputClassName = "w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const smallButtonClassName = "text-xs px-2 py-1 rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed";
+
+const STATUS_LABELS: Record<BatchItemStatus, { label: string; className: string }> = {
+  queued: { label: '대기', className: 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200' },
+  running: { label: '진행 중', className: 'bg-cyan-100 dark:bg-cyan-900/50 text-cyan-800 dark:text-cyan-200' },
+  awaitingReview: { label: '검토 대기', className: 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-800 dark:text-indigo-200' },
+  done: { label: '완료', className: 'bg-emerald-100 dark:bg-emerald-900/50 text-emerald-800 dark:text-emerald-200' },
+  failed: { label: '실패', className: 'bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200' },
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3];
+
+/**
+ * Generates posts for a list of keywords through a bounded queue. Stays mounted
+ * while closed so the queue keeps running in the background.
+ */
+const BatchPanel: React.FC<BatchPanelProps> = (props) => {
+  const { isOpen, onClose, defaults, customTemplates, onOpenPost, onReviewPost } = props;
+  const [input, setInput] = useState<string>('');
+  const [imageMode, setImageMode] = useState<BatchImageMode>('auto');
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+
+  // The queue outlives renders, so it reads the latest props through a ref
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  const queueRef = useRef<BatchQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createBatchQueue({
+      concurrency,
+      onChange: setItems,
+      async process(item, update) {
+        const { customTemplates, imageProviderOrder, onLibraryChange } = propsRef.current;
+        update({ stage: '글 생성 중' });
+        const customTemplate = customTemplates.find(custom => custom.id === item.template);
+        const result = await generateBlogPost(item.keyword, item.dateRange, item.template, { customTemplate, language: item.language, length: item.length });
+
+        const saved = await addPost({
+          keyword: item.keyword,
+          dateRange: item.dateRange,
+          template: item.template,
+          title: result.title,
+          post: result.post,
+          originalPost: result.post,
+          tags: result.tags,
+          imageKeywords: result.imageKeywords || [],
+          sources: result.sources || [],
+          language: result.language,
+          lengthTarget: result.lengthTarget,
+        });
+        onLibraryChange();
+
+        const imageKeywords = result.imageKeywords || [];
+        if (item.imageMode === 'review') {
+          return { status: 'awaitingReview', postId: saved.id };
+        }
+        if (imageKeywords.length === 0) {
+          return { status: 'done', postId: saved.id };
+        }
+
+        update({ stage: '이미지 검색 중', postId: saved.id });
+        try {
+          const { post } = await fetchAndInjectImages(result.post, imageKeywords, item.keyword, imageProviderOrder, result.language);
+          await updatePost(saved.id, { post });
+          onLibraryChange();
+          return { status: 'done', postId: saved.id };
+        } catch (err) {
+          // The post itself is fine; keep it without images and say why
+          console.error('Batch image fetch error:', err);
+          const reason = err instanceof ServiceError ? ` (${FAILURES[err.kind].title})` : '';
+          return { status: 'done', postId: saved.id, stage: `이미지를 넣지 못했습니다${reason}.` };
+        }
+      },
+    });
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    queue.setConcurrency(concurrency);
+  }, [queue, concurrency]);
+
+  const templateLabel = (template: Template) =>
+    TEMPLATE_OPTIONS.find(option => option.value === template)?.label
+    || customTemplates.find(custom => custom.id === template)?.name
+    || template;
+  const dateRangeLabel = (dateRange: DateRange) => DATE_RANGE_OPTIONS.find(option => option.value === dateRange)?.label || dateRange;
+
+  const handleAdd = () => {
+    const { jobs, errors: parseErrors } = parseBatchInput(input, { ...defaults, imageMode }, customTemplates);
+    setErrors(parseErrors);
+    if (parseErrors.length > 0 || jobs.length === 0) return;
+    queue.add(jobs);
+    setInput('');
+  };
+
+  const openSaved = async (item: BatchItem, open: (post: LibraryPost) => void) => {
+    const saved = item.postId ? await getPost(item.postId) : undefined;
+    if (!saved) {
+      queue.update(item.id, { stage: '보관함에서 글을 찾을 수 없습니다.' });
+      return;
+    }
+    open(saved);
+  };
+
+  const handleReview = async (item: BatchItem) => {
+    await openSaved(item, onReviewPost);
+    queue.update(item.id, { status: 'done' });
+  };
+
+  const finished = items.filter(item => item.postId && (item.status === 'done' || item.status === 'awaitingReview'));
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const activeCount = items.filter(item => item.status === 'queued' || item.status === 'running').length;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // Read the posts back from the library so reviews and edits made since generation are included
+      const posts = (await Promise.all(finished.map(item => getPost(item.postId!)))).filter((post): post is LibraryPost => !!post);
+      const info = EXPORT_FORMATS.find(format => format.format === exportFormat)!;
+      const content = exportPosts(exportFormat, posts.map(post => ({
+        title: post.title,
+        post: post.post,
+        tags: post.tags,
+        language: post.language,
+        sources: post.sources,
+        citationStyle: post.citationStyle,
+      })));
+      downloadFile(`batch-${new Date().toISOString().slice(0, 10)}.${info.extension}`, content, info.mimeType);
+    } catch (err) {
+      console.error('Failed to export batch:', err);
+      setErrors(['일괄 내보내기에 실패했습니다.']);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className={isOpen ? 'fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4' : 'hidden'}>
+      <div className="w-full max-w-3xl max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-2xl border border-gray-300 dark:border-gray-700 flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">
+            일괄 생성 {items.length > 0 && <span className="text-sm font-normal text-gray-500">({items.length - activeCount}/{items.length} 처리됨)</span>}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+            aria-label="일괄 생성 닫기"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 border-b border-gray-200 dark:border-gray-700">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            rows={5}
+            placeholder={'한 줄에 하나씩: 키워드 | 템플릿 | 기간\nAI 반도체\n전기차 배터리 | review | week'}
+            className={`${inputClassName} font-mono`}
+            aria-label="키워드 목록"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            템플릿과 기간을 생략하면 현재 선택({templateLabel(defaults.template)}, {dateRangeLabel(defaults.dateRange)})을 사용합니다. 언어와 분량도 현재 설정을 따릅니다.
+          </p>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              동시 처리
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg px-2 py-1 text-sm"
+              >
+                {CONCURRENCY_OPTIONS.map(value => <option key={value} value={value}>{value}개</option>)}
+              </select>
+            </label>
+            <div className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300" role="radiogroup" aria-label="이미지 처리">
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={imageMode === 'auto'} onChange={() => setImageMode('auto')} />
+                이미지 자동 삽입
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={imageMode === 'review'} onChange={() => setImageMode('review')} />
+                하나씩 검토
+              </label>
+            </div>
+            <button
+              onClick={handleAdd}
+              disabled={!input.trim()}
+              className="ml-auto px-4 py-2 bg-cyan-500 text-white text-sm font-semibold rounded-lg hover:bg-cyan-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              대기열에 추가
+            </button>
+          </div>
+          {errors.length > 0 && (
+            <ul className="text-xs text-red-600 dark:text-red-400 space-y-0.5">
+              {errors.map((message, index) => <li key={index}>{message}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex-grow overflow-auto p-4">
+          {items.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">키워드 목록을 입력해 대기열에 추가하세요.</p>
+          ) : (
+            <ul className="space-y-2">
+              {items.map(item => (
+                <li key={item.id} className="flex items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <span className={`shrink-0 text-xs font-semibold px-2 py-0.5 rounded-full ${STATUS_LABELS[item.status].className}`}>
+                    {STATUS_LABELS[item.status].label}
+                  </span>
+                  <div className="flex-grow min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{item.keyword}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {templateLabel(item.template)} · {dateRangeLabel(item.dateRange)} · {item.imageMode === 'auto' ? '이미지 자동' : '이미지 검토'}
+                      {item.attempts > 1 && ` · ${item.attempts}번째 시도`}
+                    </p>
+                    {item.stage && <p className="text-xs text-amber-600 dark:text-amber-400">{item.stage}</p>}
+                    {item.error && <p className="text-xs text-red-600 dark:text-red-400 break-words">{item.error}</p>}
+                  </div>
+                  {item.status === 'failed' && (
+                    <button onClick={() => queue.retry(item.id)} className={smallButtonClassName}>재시도</button>
+                  )}
+                  {item.status === 'awaitingReview' && (
+                    <button onClick={() => handleReview(item)} className={smallButtonClassName}>검토</button>
+                  )}
+                  {item.status === 'done' && item.postId && (
+                    <button onClick={() => openSaved(item, onOpenPost)} className={smallButtonClassName}>열기</button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 p-4 border-t border-gray-200 dark:border-gray-700">
+            <button
+              onClick={() => items.filter(item => item.status === 'failed').forEach(item => queue.retry(item.id))}
+              disabled={failedCount === 0}
+              className={smallButtonClassName}
+            >
+              실패 {failedCount}개 재시도
+            </button>
+            <button onClick={() => queue.clearFinished()} disabled={!items.some(item => item.status === 'done' || item.status === 'failed')} className={smallButtonClassName}>
+              처리된 항목 지우기
+            </button>
+            <div className="ml-auto flex items-center gap-2">
+              <select
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+                className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg px-2 py-1 text-sm"
+                aria-label="일괄 내보내기 형식"
+              >
+                {EXPORT_FORMATS.map(({ format, label }) => <option key={format} value={format}>{label}</option>)}
+              </select>
+              <button
+                onClick={handleExport}
+                disabled={finished.length === 0 || isExporting}
+                className="px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 text-sm font-semibold rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {finished.length}개 모두 내보내기
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchPanel;
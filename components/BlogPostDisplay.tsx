@@ -1,10 +1,41 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
+import PostEditor from './PostEditor';
+import ExportMenu from './ExportMenu';
+import PublishDialog from './PublishDialog';
+import SeoPanel from './SeoPanel';
+import CitationPanel from './CitationPanel';
+import { joinPostSections, mergeSectionFigures, splitPostSections, stripNonTextBlocks } from '../services/postSections';
+import { GENERATION_STAGE_OPTIONS } from '../constants';
+import { toStandaloneHtml } from '../services/exporters';
+import { getLanguageConfig } from '../services/languages';
+import { verifyPostLength, type LengthReport } from '../services/postLength';
+import { DEFAULT_CITATION_STYLE, isLowConfidenceSource, renderSourcesHtml } from '../services/sources';
+import type { CitationStyle, GenerationStage, Language, LengthTarget, Source } from '../types';
 
 interface BlogPostDisplayProps {
   title: string;
   post: string;
   tags: string[];
+  /** Keyword the post was generated for, used by the SEO analysis */
+  keyword?: string;
+  /** Language of the post, used for exported HTML */
+  language?: Language;
+  /** Target the body length is checked against */
+  lengthTarget?: LengthTarget;
+  /** News sources, rendered below the body in the chosen citation style */
+  sources?: Source[];
+  citationStyle?: CitationStyle;
   onRegenerateImages?: () => void;
+  onPostChange?: (post: string) => void;
+  /** Receives the post too, since removing a source renumbers its citation markers */
+  onSourcesChange?: (sources: Source[], post: string) => void;
+  onCitationStyleChange?: (style: CitationStyle) => void;
+  /** Rewrites one section; receives the section and the full post context without images or references */
+  onRegenerateSection?: (section: string, instruction: string, context: string) => Promise<string>;
+  /** Aborts the section rewrite in progress; the section keeps its current text */
+  onCancelRegenerateSection?: () => void;
+  /** Set while the post is still streaming in; shows the stage in place of the copy, export and publish actions */
+  stage?: GenerationStage;
 }
 
 interface StyleButtonProps {
@@ -26,8 +57,126 @@ const StyleButton: React.FC<StyleButtonProps> = ({ onClick, isActive, children }
   </button>
 );
 
+const LENGTH_STATUS_STYLES: Record<LengthReport['status'], { className: string; label: string }> = {
+  short: { className: 'bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200', label: '목표보다 짧음' },
+  within: { className: 'bg-emerald-100 dark:bg-emerald-900/40 text-emerald-800 dark:text-emerald-200', label: '목표 달성' },
+  long: { className: 'bg-sky-100 dark:bg-sky-900/40 text-sky-800 dark:text-sky-200', label: '목표보다 김' },
+};
+
+const LengthBadge: React.FC<{ report: LengthReport; unitLabel: string }> = ({ report, unitLabel }) => {
+  const { className, label } = LENGTH_STATUS_STYLES[report.status];
+  return (
+    <div className={`inline-flex items-center gap-2 mb-6 px-3 py-1 rounded-full text-xs font-medium ${className}`}>
+      <span>본문 {report.count.toLocaleString()}{unitLabel}</span>
+      <span className="opacity-60">·</span>
+      <span>목표 {report.min.toLocaleString()}~{report.max.toLocaleString()}{unitLabel}</span>
+      <span className="opacity-60">·</span>
+      <span>{label}</span>
+    </div>
+  );
+};
+
+const StageIndicator: React.FC<{ stage: GenerationStage }> = ({ stage }) => {
+  const current = GENERATION_STAGE_OPTIONS.findIndex(option => option.value === stage);
+  return (
+    <ol className="flex flex-wrap items-center gap-2" aria-label="생성 진행 단계">
+      {GENERATION_STAGE_OPTIONS.map((option, index) => (
+        <li
+          key={option.value}
+          aria-current={index === current ? 'step' : undefined}
+          className={`flex items-center gap-2 px-3 py-1 rounded-full text-xs font-medium ${
+            index === current
+              ? 'bg-cyan-500 text-white'
+              : index < current
+                ? 'bg-cyan-100 dark:bg-cyan-900/50 text-cyan-800 dark:text-cyan-200'
+                : 'bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+          }`}
+        >
+          {index === current && <span className="w-2 h-2 rounded-full bg-white animate-pulse"></span>}
+          {index < current && <span>✓</span>}
+          {option.label}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+interface SectionBlockProps {
+  html: string;
+  heading: string;
+  isBusy: boolean;
+  isDisabled: boolean;
+  onRegenerate: (instruction: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const SectionBlock: React.FC<SectionBlockProps> = ({ html, heading, isBusy, isDisabled, onRegenerate, onCancel }) => {
+  const [isFormOpen, setIsFormOpen] = useState<boolean>(false);
+  const [instruction, setInstruction] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const handleSubmit = async () => {
+    setError('');
+    try {
+      await onRegenerate(instruction);
+      setIsFormOpen(false);
+      setInstruction('');
+    } catch (err) {
+      // A cancelled rewrite leaves the form open with the instruction as it was
+      if (err instanceof Error && err.name === 'AbortError') return;
+      setError(err instanceof Error ? err.message : '섹션을 다시 쓰지 못했습니다.');
+    }
+  };
+
+  return (
+    <div className={`group relative ${isBusy ? 'opacity-50 animate-pulse' : ''}`}>
+      {!isFormOpen && (
+        <button
+          onClick={() => setIsFormOpen(true)}
+          disabled={isDisabled}
+          className="absolute top-0 right-0 opacity-0 group-hover:opacity-100 focus:opacity-100 bg-indigo-500 text-white hover:bg-indigo-600 text-xs font-semibold py-1 px-2 rounded-md transition-opacity disabled:bg-gray-400 disabled:cursor-not-allowed"
+          aria-label={`${heading} 섹션 다시 쓰기`}
+        >
+          ✨ 섹션 다시 쓰기
+        </button>
+      )}
+      {isFormOpen && (
+        <div className="mb-4 p-3 rounded-lg bg-indigo-50 dark:bg-gray-900/60 border border-indigo-200 dark:border-gray-700 not-italic">
+          <p className="text-xs font-semibold text-gray-700 dark:text-gray-300 mb-2">"{heading}" 섹션 다시 쓰기</p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="text"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && !isBusy && handleSubmit()}
+              placeholder="추가 요청 (선택): 예) 수치를 더 넣어줘, 더 짧게"
+              className="flex-grow bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isBusy}
+            />
+            <button
+              onClick={handleSubmit}
+              disabled={isBusy}
+              className="px-3 py-1.5 bg-indigo-500 text-white text-sm font-semibold rounded-lg hover:bg-indigo-600 disabled:bg-gray-400"
+            >
+              {isBusy ? '작성 중...' : '다시 쓰기'}
+            </button>
+            <button
+              onClick={() => (isBusy ? onCancel?.() : setIsFormOpen(false))}
+              disabled={isBusy && !onCancel}
+              className="px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600"
+            >
+              취소
+            </button>
+          </div>
+          {error && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      )}
+      <div dangerouslySetInnerHTML={{ __html: html }} />
+    </div>
+  );
+};
 
-const BlogPostDisplay: React.FC<BlogPostDisplayProps> = ({ title, post, tags, onRegenerateImages }) => {
+const BlogPostDisplay: React.FC<BlogPostDisplayProps> = ({ title, post, tags, keyword = '', language, lengthTarget, sources = [], citationStyle = DEFAULT_CITATION_STYLE, onRegenerateImages, onPostChange, onSourcesChange, onCitationStyleChange, onRegenerateSection, onCancelRegenerateSection, stage }) => {
   const [copyStatus, setCopyStatus] = useState({
     body: '블로그용 복사',
     full: '전체 파일로 복사',
@@ -36,13 +185,72 @@ const BlogPostDisplay: React.FC<BlogPostDisplayProps> = ({ title, post, tags, on
   
   const [fontSize, setFontSize] = useState<'base' | 'sm' | 'lg'>('base');
   const [lineHeight, setLineHeight] = useState<'relaxed' | 'normal' | 'loose'>('relaxed');
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [isPublishOpen, setIsPublishOpen] = useState<boolean>(false);
+  const [isSeoOpen, setIsSeoOpen] = useState<boolean>(false);
+  const [isCitationsOpen, setIsCitationsOpen] = useState<boolean>(false);
+  // Edited HTML; the copy handlers always use this instead of the original post
+  const [content, setContent] = useState<string>(post);
+
+  useEffect(() => {
+    setContent(post);
+    setIsEditing(false);
+  }, [post]);
+
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+
+  const segments = useMemo(
+    () => (onRegenerateSection ? splitPostSections(content) : []),
+    [content, onRegenerateSection]
+  );
+
+  const lengthReport = useMemo(
+    () => verifyPostLength(content, lengthTarget, language),
+    [content, lengthTarget, language]
+  );
+
+  const lowConfidenceCount = sources.filter(isLowConfidenceSource).length;
+
+  const sourcesHtml = useMemo(
+    () => renderSourcesHtml(sources, citationStyle, language),
+    [sources, citationStyle, language]
+  );
+  // Body plus the rendered references block, for HTML copies, publishing and the SEO check
+  const fullContent = content + sourcesHtml;
+
+  const handleRegenerateSection = async (index: number, instruction: string) => {
+    if (!onRegenerateSection) return;
+    const segment = segments[index];
+    setRegeneratingIndex(index);
+    try {
+      const newSection = await onRegenerateSection(stripNonTextBlocks(segment.html), instruction, stripNonTextBlocks(content));
+      // Keep the section's images where they were and leave every other segment untouched
+      const updated = joinPostSections(segments.map((s, i) => (i === index ? { ...s, html: mergeSectionFigures(segment.html, newSection) } : s)));
+      setContent(updated);
+      onPostChange?.(updated);
+    } finally {
+      setRegeneratingIndex(null);
+    }
+  };
+
+  const handleSourcesChange = (updatedSources: Source[], updatedPost: string) => {
+    setContent(updatedPost);
+    onSourcesChange?.(updatedSources, updatedPost);
+  };
+
+  const handleToggleEditing = () => {
+    if (isEditing && onPostChange && content !== post) {
+      onPostChange(content);
+    }
+    setIsEditing(!isEditing);
+  };
 
   const fontSizeClassMap = { sm: 'text-sm', base: 'text-base', lg: 'text-lg' };
   const lineHeightClassMap = { normal: 'leading-normal', relaxed: 'leading-relaxed', loose: 'leading-loose' };
 
 
   const handleCopyBodyOnly = () => {
-    const contentToCopy = `<h1>${title}</h1>\n${post}`;
+    const contentToCopy = `<h1>${title}</h1>\n${fullContent}`;
     navigator.clipboard.writeText(contentToCopy).then(() => {
       setCopyStatus(prev => ({ ...prev, body: '복사 완료!' }));
       setTimeout(() => {
@@ -58,103 +266,7 @@ const BlogPostDisplay: React.FC<BlogPostDisplayProps> = ({ title, post, tags, on
   };
   
   const handleCopyFullFile = () => {
-    const fullHtml = `
-      <!DOCTYPE html>
-      <html lang="ko">
-      <head>
-          <meta charset="UTF-8">
-          <meta name="viewport" content="width=device-width, initial-scale=1.0">
-          <title>${title}</title>
-          <style>
-              body {
-                  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
-                  line-height: 1.7;
-                  color: #333;
-                  background-color: #ffffff;
-                  margin: 0;
-                  padding: 2rem;
-              }
-              .container {
-                  max-width: 800px;
-                  margin: auto;
-                  background-color: #f9fafb;
-                  border-radius: 8px;
-                  padding: 2.5rem;
-                  border: 1px solid #e5e7eb;
-              }
-              h1, h2, h3 {
-                  color: #111827;
-              }
-              h1 {
-                  font-size: 2.25rem;
-                  margin-bottom: 1em;
-                  line-height: 1.2;
-              }
-              h2, h3 {
-                  border-bottom: 2px solid #e5e7eb;
-                  padding-bottom: 0.3em;
-                  margin-top: 1.5em;
-              }
-              h2 { font-size: 1.75rem; }
-              h3 { font-size: 1.5rem; }
-              p {
-                  margin-bottom: 1.2em;
-              }
-              strong {
-                  color: #000;
-              }
-              ul, ol {
-                  padding-left: 20px;
-                  margin-bottom: 1em;
-              }
-              li {
-                  margin-bottom: 0.5em;
-              }
-              a {
-                  color: #06b6d4;
-                  text-decoration: none;
-              }
-              a:hover {
-                  text-decoration: underline;
-              }
-              blockquote {
-                  border-left: 4px solid #06b6d4;
-                  padding-left: 1rem;
-                  margin: 1.5em 0;
-                  color: #6b7280;
-                  font-style: italic;
-              }
-              figure {
-                  margin: 2em 0;
-                  text-align: center;
-              }
-              figure img {
-                  max-width: 100%;
-                  height: auto;
-                  border-radius: 8px;
-              }
-              figure figcaption {
-                  font-size: 0.8em;
-                  color: #888;
-                  margin-top: 0.5em;
-              }
-              .sources-section {
-                  margin-top: 3rem;
-                  padding-top: 1.5rem;
-                  border-top: 1px solid #e5e7eb;
-              }
-          </style>
-      </head>
-      <body>
-          <div class="container">
-              <div class="post-content">
-                  <h1>${title}</h1>
-                  ${post}
-              </div>
-          </div>
-      </body>
-      </html>
-    `;
+    const fullHtml = toStandaloneHtml({ title, post: content, tags, language, sources, citationStyle });
 
     navigator.clipboard.writeText(fullHtml).then(() => {
       setCopyStatus(prev => ({ ...prev, full: '복사 완료!' }));
@@ -209,78 +321,155 @@ const BlogPostDisplay: React.FC<BlogPostDisplayProps> = ({ title, post, tags, on
             <StyleButton onClick={() => setLineHeight('relaxed')} isActive={lineHeight === 'relaxed'}>보통</StyleButton>
             <StyleButton onClick={() => setLineHeight('loose')} isActive={lineHeight === 'loose'}>넓게</StyleButton>
           </div>
+          {!stage && (
+            <>
+              <StyleButton onClick={() => setIsSeoOpen(!isSeoOpen)} isActive={isSeoOpen}>SEO 분석</StyleButton>
+              <StyleButton onClick={() => setIsCitationsOpen(!isCitationsOpen)} isActive={isCitationsOpen}>
+                출처 확인{lowConfidenceCount > 0 && <span className="ml-1 text-amber-600 dark:text-amber-400">⚠ {lowConfidenceCount}</span>}
+              </StyleButton>
+            </>
+          )}
         </div>
 
-        {/* Copy Buttons and Image Regenerate */}
-        <div className="flex gap-2">
-          {onRegenerateImages && (
+        {/* Copy Buttons and Image Regenerate; only the stage while the post streams in */}
+        {stage ? (
+          <StageIndicator stage={stage} />
+        ) : (
+          <div className="flex gap-2">
+            {onPostChange && (
+              <button
+                onClick={handleToggleEditing}
+                className={`${isEditing ? 'bg-emerald-500 hover:bg-emerald-600' : 'bg-amber-500 hover:bg-amber-600'} text-white font-semibold py-2 px-4 rounded-lg transition-colors text-sm flex items-center justify-center gap-2`}
+                aria-label={isEditing ? '편집 완료' : '본문 편집'}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+                {isEditing ? '편집 완료' : '편집'}
+              </button>
+            )}
+            {onRegenerateImages && (
+              <button
+                onClick={onRegenerateImages}
+                className="bg-indigo-500 text-white hover:bg-indigo-600 font-semibold py-2 px-4 rounded-lg transition-colors text-sm flex items-center justify-center gap-2"
+                aria-label="이미지 재생성"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                </svg>
+                이미지 재생성
+              </button>
+            )}
             <button
-              onClick={onRegenerateImages}
-              className="bg-indigo-500 text-white hover:bg-indigo-600 font-semibold py-2 px-4 rounded-lg transition-colors text-sm flex items-center justify-center gap-2"
-              aria-label="이미지 재생성"
+              onClick={handleCopyBodyOnly}
+              className="bg-cyan-500 text-white hover:bg-cyan-600 font-semibold py-2 px-4 rounded-lg transition-colors text-sm flex items-center justify-center gap-2"
+              aria-label="블로그용 본문 복사"
             >
               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
               </svg>
-              이미지 재생성
+              {copyStatus.body}
             </button>
-          )}
-          <button
-            onClick={handleCopyBodyOnly}
-            className="bg-cyan-500 text-white hover:bg-cyan-600 font-semibold py-2 px-4 rounded-lg transition-colors text-sm flex items-center justify-center gap-2"
-            aria-label="블로그용 본문 복사"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
-            </svg>
-            {copyStatus.body}
-          </button>
-          <button
-            onClick={handleCopyFullFile}
-            className="bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 font-semibold py-2 px-4 rounded-lg transition-colors text-sm flex items-center justify-center gap-2"
-            aria-label="전체 파일로 복사"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-            </svg>
-            {copyStatus.full}
-          </button>
-        </div>
+            <button
+              onClick={handleCopyFullFile}
+              className="bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 font-semibold py-2 px-4 rounded-lg transition-colors text-sm flex items-center justify-center gap-2"
+              aria-label="전체 파일로 복사"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+              </svg>
+              {copyStatus.full}
+            </button>
+            <ExportMenu title={title} post={content} tags={tags} language={language} sources={sources} citationStyle={citationStyle} />
+            <button
+              onClick={() => setIsPublishOpen(true)}
+              className="bg-blue-600 text-white hover:bg-blue-700 font-semibold py-2 px-4 rounded-lg transition-colors text-sm flex items-center justify-center gap-2"
+              aria-label="WordPress 발행"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+              </svg>
+              WordPress 발행
+            </button>
+          </div>
+        )}
       </div>
 
-      <div className="p-6 overflow-auto flex-grow">
-        <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900 dark:text-white mb-6 pb-4 border-b border-gray-300 dark:border-gray-600">
-          {title}
-        </h1>
-        {tags && tags.length > 0 && (
-          <div className="mb-8 p-4 bg-gray-100 dark:bg-gray-900/50 rounded-lg">
-              <div className="flex justify-between items-center mb-3">
-                <h4 className="text-md font-semibold text-gray-800 dark:text-gray-200">추천 태그</h4>
-                <button
-                    onClick={handleCopyTags}
-                    className="bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 font-semibold py-1 px-3 rounded-lg transition-colors text-xs flex items-center justify-center gap-2"
-                    aria-label="태그 복사"
-                >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2" />
-                    </svg>
-                    {copyStatus.tags}
-                </button>
-              </div>
-              <div className="flex flex-wrap gap-2">
-                  {tags.map((tag, index) => (
-                      <span key={index} className="bg-cyan-100 dark:bg-cyan-900/50 text-cyan-800 dark:text-cyan-200 px-3 py-1 rounded-full text-sm font-medium">
-                          #{tag}
-                      </span>
-                  ))}
-              </div>
+      <div className="flex flex-col lg:flex-row flex-grow min-h-0">
+        <div className="p-6 overflow-auto flex-grow">
+          <h1 className="text-3xl md:text-4xl font-extrabold text-gray-900 dark:text-white mb-6 pb-4 border-b border-gray-300 dark:border-gray-600">
+            {title}
+          </h1>
+          <LengthBadge report={lengthReport} unitLabel={getLanguageConfig(language).lengthUnitLabel} />
+          {tags && tags.length > 0 && (
+            <div className="mb-8 p-4 bg-gray-100 dark:bg-gray-900/50 rounded-lg">
+                <div className="flex justify-between items-center mb-3">
+                  <h4 className="text-md font-semibold text-gray-800 dark:text-gray-200">추천 태그</h4>
+                  <button
+                      onClick={handleCopyTags}
+                      className="bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 font-semibold py-1 px-3 rounded-lg transition-colors text-xs flex items-center justify-center gap-2"
+                      aria-label="태그 복사"
+                  >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2" />
+                      </svg>
+                      {copyStatus.tags}
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    {tags.map((tag, index) => (
+                        <span key={index} className="bg-cyan-100 dark:bg-cyan-900/50 text-cyan-800 dark:text-cyan-200 px-3 py-1 rounded-full text-sm font-medium">
+                            #{tag}
+                        </span>
+                    ))}
+                </div>
+            </div>
+          )}
+          {isEditing ? (
+            <PostEditor value={content} onChange={setContent} contentClassName={contentClassName} />
+          ) : onRegenerateSection ? (
+            <div className={contentClassName}>
+              {segments.map((segment, index) => segment.kind === 'section' ? (
+                <SectionBlock
+                  key={index}
+                  html={segment.html}
+                  heading={segment.heading || ''}
+                  isBusy={regeneratingIndex === index}
+                  isDisabled={regeneratingIndex !== null}
+                  onRegenerate={(instruction) => handleRegenerateSection(index, instruction)}
+                  onCancel={onCancelRegenerateSection}
+                />
+              ) : (
+                <div key={index} dangerouslySetInnerHTML={{ __html: segment.html }} />
+              ))}
+            </div>
+          ) : (
+            <div
+              className={contentClassName}
+              dangerouslySetInnerHTML={{ __html: content }}
+            />
+          )}
+          {sourcesHtml && (
+            <div className={contentClassName} dangerouslySetInnerHTML={{ __html: sourcesHtml }} />
+          )}
+        </div>
+        {(isSeoOpen || isCitationsOpen) && (
+          <div className="lg:w-80 shrink-0 p-4 space-y-8 overflow-auto border-t lg:border-t-0 lg:border-l border-gray-200 dark:border-gray-700">
+            {isSeoOpen && <SeoPanel title={title} post={fullContent} keyword={keyword} language={language} />}
+            {isCitationsOpen && (
+              <CitationPanel
+                post={content}
+                sources={sources}
+                citationStyle={citationStyle}
+                onSourcesChange={onSourcesChange && !isEditing ? handleSourcesChange : undefined}
+                onCitationStyleChange={onCitationStyleChange}
+              />
+            )}
           </div>
         )}
-        <div
-          className={contentClassName}
-          dangerouslySetInnerHTML={{ __html: post }}
-        />
       </div>
+
+      <PublishDialog isOpen={isPublishOpen} title={title} post={fullContent} tags={tags} onClose={() => setIsPublishOpen(false)} />
     </div>
   );
 };
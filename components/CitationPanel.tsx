@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { CITATION_STYLE_OPTIONS } from '../constants';
+import { findUnsupportedParagraphs } from '../services/citations';
+import { isLowConfidenceSource, removeSource } from '../services/sources';
+import type { CitationStyle, Source } from '../types';
+
+interface CitationPanelProps {
+  post: string;
+  sources: Source[];
+  citationStyle: CitationStyle;
+  /** Called when an editor edits or removes a source; removing renumbers the markers in post */
+  onSourcesChange?: (sources: Source[], post: string) => void;
+  onCitationStyleChange?: (style: CitationStyle) => void;
+}
+
+const actionButtonClassName = "px-2 py-1 text-xs font-medium rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors";
+const inputClassName = "w-full px-2 py-1 text-xs rounded-md bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200";
+
+interface SourceItemProps {
+  number: number;
+  source: Source;
+  onSave?: (source: Source) => void;
+  onRemove?: () => void;
+}
+
+const SourceItem: React.FC<SourceItemProps> = ({ number, source, onSave, onRemove }) => {
+  const [draft, setDraft] = useState<Source | null>(null);
+  const flagged = isLowConfidenceSource(source);
+
+  if (draft) {
+    const isValidUrl = !draft.url.trim() || /^https?:\/\/\S+$/.test(draft.url.trim());
+    const handleSave = () => {
+      const url = draft.url.trim();
+      // An editor-entered or edited link counts as confirmed
+      onSave?.({ ...draft, title: draft.title.trim(), outlet: draft.outlet?.trim() || undefined, url, confidence: url ? 1 : 0 });
+      setDraft(null);
+    };
+
+    return (
+      <li className="space-y-1.5">
+        <input value={draft.title} onChange={(e) => setDraft({ ...draft, title: e.target.value })} placeholder="기사 제목" aria-label={`[${number}] 기사 제목`} className={inputClassName} />
+        <input value={draft.outlet || ''} onChange={(e) => setDraft({ ...draft, outlet: e.target.value })} placeholder="언론사" aria-label={`[${number}] 언론사`} className={inputClassName} />
+        <input type="url" value={draft.url} onChange={(e) => setDraft({ ...draft, url: e.target.value })} placeholder="https://" aria-label={`[${number}] 링크 주소`} className={inputClassName} />
+        <div className="flex justify-end gap-1.5">
+          <button onClick={() => setDraft(null)} className={actionButtonClassName}>취소</button>
+          <button onClick={handleSave} disabled={!draft.title.trim() || !isValidUrl} className={actionButtonClassName}>저장</button>
+        </div>
+      </li>
+    );
+  }
+
+  return (
+    <li className={`p-2 rounded-md ${flagged ? 'bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800' : ''}`}>
+      <p className="text-xs font-medium text-gray-800 dark:text-gray-200 break-words">
+        [{number}] {source.title}{source.outlet && <span className="text-gray-500"> - {source.outlet}</span>}
+      </p>
+      {source.url && <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{source.url}</p>}
+      {flagged && (
+        <p className="text-xs text-amber-700 dark:text-amber-300">
+          {source.url ? `링크 확인 필요 · 일치 신뢰도 ${Math.round(source.confidence * 100)}%` : '일치하는 링크를 찾지 못했습니다.'}
+        </p>
+      )}
+      {onSave && (
+        <div className="flex justify-end gap-1.5 mt-1.5">
+          {flagged && source.url && (
+            <button onClick={() => onSave({ ...source, confidence: 1 })} className={actionButtonClassName}>확인</button>
+          )}
+          <button onClick={() => setDraft(source)} className={actionButtonClassName}>수정</button>
+          <button onClick={onRemove} className={actionButtonClassName}>삭제</button>
+        </div>
+      )}
+    </li>
+  );
+};
+
+const CitationPanel: React.FC<CitationPanelProps> = ({ post, sources, citationStyle, onSourcesChange, onCitationStyleChange }) => {
+  const report = useMemo(() => findUnsupportedParagraphs(post), [post]);
+  const flaggedCount = sources.filter(isLowConfidenceSource).length;
+  const supported = report.totalParagraphs - report.unsupportedParagraphs.length;
+
+  const handleSave = (index: number) => (source: Source) =>
+    onSourcesChange?.(sources.map((existing, i) => (i === index ? source : existing)), post);
+
+  const handleRemove = (index: number) => () => {
+    const updated = removeSource(post, sources, index);
+    onSourcesChange?.(updated.sources, updated.post);
+  };
+
+  return (
+    <aside className="space-y-4" aria-label="출처 확인">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-md font-semibold text-gray-800 dark:text-gray-200">출처 확인</h3>
+        <span className="text-sm text-gray-500 dark:text-gray-400">
+          근거 있는 문단 {supported}/{report.totalParagraphs}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs font-semibold text-gray-600 dark:text-gray-300">
+            참고 자료 {sources.length}개{flaggedCount > 0 && <span className="text-amber-600 dark:text-amber-400"> · 확인 필요 {flaggedCount}개</span>}
+          </span>
+          <select
+            value={citationStyle}
+            onChange={(e) => onCitationStyleChange?.(e.target.value as CitationStyle)}
+            disabled={!onCitationStyleChange}
+            aria-label="인용 스타일"
+            className="px-2 py-1 text-xs rounded-md bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 text-gray-800 dark:text-gray-200"
+          >
+            {CITATION_STYLE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
+        {sources.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">참고 자료가 없습니다.</p>
+        ) : (
+          <ul className="space-y-2">
+            {sources.map((source, index) => (
+              <SourceItem
+                key={`${index}-${source.title}-${source.url}`}
+                number={index + 1}
+                source={source}
+                onSave={onSourcesChange && handleSave(index)}
+                onRemove={handleRemove(index)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {report.unsupportedParagraphs.length === 0 ? (
+        <p className="text-sm text-emerald-700 dark:text-emerald-300">모든 문단에 출처 표시가 있습니다.</p>
+      ) : (
+        <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+          <p className="text-xs font-semibold text-amber-800 dark:text-amber-200 mb-2">
+            검색 결과로 뒷받침되지 않은 문단 {report.unsupportedParagraphs.length}개 — 발행 전에 사실 여부를 확인하세요.
+          </p>
+          <ol className="list-decimal pl-4 space-y-2 text-xs text-amber-900 dark:text-amber-100">
+            {report.unsupportedParagraphs.map((paragraph, index) => (
+              <li key={index} className="line-clamp-3">{paragraph}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </aside>
+  );
+};
+
+export default CitationPanel;
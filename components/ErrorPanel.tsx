@@ -0,0 +1,52 @@
+import React from 'react';
+import { FAILURES, type RecoveryAction, type ServiceError } from '../services/errors';
+
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  retry: '다시 시도',
+  widenDateRange: '기간을 넓혀 다시 시도',
+  editKeyword: '키워드 수정',
+  continueWithoutImages: '이미지 없이 계속',
+};
+
+interface ErrorPanelProps {
+  error: ServiceError;
+  /** Handlers for the actions this screen can offer; actions without one are hidden */
+  actions: Partial<Record<RecoveryAction, () => void>>;
+}
+
+/**
+ * Explains a classified failure and offers the recovery actions that fit it
+ */
+const ErrorPanel: React.FC<ErrorPanelProps> = ({ error, actions }) => {
+  const { title, actions: suggested } = FAILURES[error.kind];
+  const available = suggested.filter(action => actions[action]);
+
+  return (
+    <div className="text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/50 p-4 rounded-lg text-center max-w-lg" role="alert">
+      <p className="font-bold mb-2">{title}</p>
+      <p>{error.message}</p>
+      {error.detail && (
+        <p className="mt-2 text-xs text-red-500/80 dark:text-red-300/70 break-words">상세: {error.detail}</p>
+      )}
+      {available.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2 mt-4">
+          {available.map((action, index) => (
+            <button
+              key={action}
+              onClick={actions[action]}
+              className={`px-4 py-2 text-sm font-semibold rounded-lg transition-colors ${
+                index === 0
+                  ? 'bg-red-600 text-white hover:bg-red-700'
+                  : 'bg-white dark:bg-gray-800 text-red-600 dark:text-red-300 border border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              {ACTION_LABELS[action]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ErrorPanel;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EXPORT_FORMATS, downloadFile, exportFileName, exportPost, type ExportFormat } from '../services/exporters';
+import type { CitationStyle, Language, Source } from '../types';
+
+interface ExportMenuProps {
+  title: string;
+  post: string;
+  tags: string[];
+  language?: Language;
+  sources?: Source[];
+  citationStyle?: CitationStyle;
+}
+
+const actionButtonClassName = "px-2 py-1 text-xs font-medium rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors";
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ title, post, tags, language, sources, citationStyle }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [status, setStatus] = useState<{ format: ExportFormat; message: string } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const showStatus = (format: ExportFormat, message: string) => {
+    setStatus({ format, message });
+    setTimeout(() => setStatus(null), 2000);
+  };
+
+  const handleCopy = (format: ExportFormat) => {
+    navigator.clipboard.writeText(exportPost(format, { title, post, tags, language, sources, citationStyle })).then(() => {
+      showStatus(format, '복사 완료!');
+    }).catch(err => {
+      console.error(`Failed to copy ${format} export: `, err);
+      showStatus(format, '복사 실패');
+    });
+  };
+
+  const handleDownload = (format: ExportFormat, mimeType: string) => {
+    downloadFile(exportFileName(title, format), exportPost(format, { title, post, tags, language, sources, citationStyle }), mimeType);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 font-semibold py-2 px-4 rounded-lg transition-colors text-sm flex items-center justify-center gap-2"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        내보내기
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 z-20 p-2 rounded-lg shadow-xl bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <ul className="space-y-1">
+            {EXPORT_FORMATS.map(({ format, label, extension, mimeType }) => (
+              <li key={format} className="flex items-center gap-2 px-2 py-1.5 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                <span className="flex-grow text-sm text-gray-800 dark:text-gray-200">
+                  {label} <span className="text-xs text-gray-500">.{extension}</span>
+                </span>
+                {status?.format === format && (
+                  <span className="text-xs text-cyan-600 dark:text-cyan-400">{status.message}</span>
+                )}
+                <button onClick={() => handleCopy(format)} className={actionButtonClassName} aria-label={`${label} 복사`}>
+                  복사
+                </button>
+                <button onClick={() => handleDownload(format, mimeType)} className={actionButtonClassName} aria-label={`${label} 다운로드`}>
+                  다운로드
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -1,17 +1,24 @@
 import React, { useState } from 'react';
+import type { ImageProviderId, ImageProviderInfo } from '../services/images';
 
 interface ImageKeywordEditorProps {
   keywords: string[];
   onConfirm: (keywords: string[]) => void;
   onSkip: () => void;
   isLoading: boolean;
+  providers: ImageProviderInfo[];
+  providerOrder: ImageProviderId[];
+  onProviderOrderChange: (order: ImageProviderId[]) => void;
 }
 
 const ImageKeywordEditor: React.FC<ImageKeywordEditorProps> = ({
   keywords,
   onConfirm,
   onSkip,
-  isLoading
+  isLoading,
+  providers,
+  providerOrder,
+  onProviderOrderChange
 }) => {
   const [editedKeywords, setEditedKeywords] = useState<string[]>(() => {
     // Ensure we always have 3 keyword slots
@@ -28,6 +35,24 @@ const ImageKeywordEditor: React.FC<ImageKeywordEditorProps> = ({
     setEditedKeywords(newKeywords);
   };
 
+  // Enabled providers first in fallback order, then the disabled ones
+  const sortedProviders = [
+    ...providerOrder.map(id => providers.find(p => p.id === id)).filter((p): p is ImageProviderInfo => !!p),
+    ...providers.filter(p => !providerOrder.includes(p.id)),
+  ];
+
+  const handleToggleProvider = (id: ImageProviderId) => {
+    onProviderOrderChange(providerOrder.includes(id) ? providerOrder.filter(p => p !== id) : [...providerOrder, id]);
+  };
+
+  const handleMoveProvider = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= providerOrder.length) return;
+    const newOrder = [...providerOrder];
+    [newOrder[index], newOrder[target]] = [newOrder[target], newOrder[index]];
+    onProviderOrderChange(newOrder);
+  };
+
   const handleConfirm = () => {
     const validKeywords = editedKeywords.filter(kw => kw.trim() !== '');
     onConfirm(validKeywords);
@@ -43,7 +68,7 @@ const ImageKeywordEditor: React.FC<ImageKeywordEditorProps> = ({
         </div>
         <div>
           <h3 className="text-lg font-bold text-gray-900 dark:text-white">이미지 검색 키워드</h3>
-          <p className="text-sm text-gray-600 dark:text-gray-400">Pexels에서 검색할 영어 키워드를 확인하거나 수정하세요</p>
+          <p className="text-sm text-gray-600 dark:text-gray-400">이미지 검색에 사용할 영어 키워드를 확인하거나 수정하세요</p>
         </div>
       </div>
 
@@ -65,10 +90,52 @@ const ImageKeywordEditor: React.FC<ImageKeywordEditorProps> = ({
         ))}
       </div>
 
+      <div className="mb-6">
+        <p className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">이미지 소스 (위에서부터 순서대로 검색)</p>
+        <div className="space-y-2">
+          {sortedProviders.map(provider => {
+            const orderIndex = providerOrder.indexOf(provider.id);
+            const isEnabled = orderIndex !== -1;
+            return (
+              <div key={provider.id} className="flex items-center gap-3 bg-white/60 dark:bg-gray-800/60 rounded-lg px-3 py-2">
+                <input
+                  type="checkbox"
+                  checked={isEnabled}
+                  onChange={() => handleToggleProvider(provider.id)}
+                  disabled={isLoading || !provider.configured}
+                  className="h-4 w-4 accent-indigo-500"
+                  aria-label={`${provider.label} 사용`}
+                />
+                <span className={`flex-grow text-sm ${provider.configured ? 'text-gray-800 dark:text-gray-200' : 'text-gray-400 dark:text-gray-500'}`}>
+                  {isEnabled && `${orderIndex + 1}. `}{provider.label}
+                  {!provider.configured && ' (서버에 설정되지 않음)'}
+                </span>
+                <button
+                  onClick={() => handleMoveProvider(orderIndex, -1)}
+                  disabled={isLoading || !isEnabled || orderIndex === 0}
+                  className="px-2 text-gray-500 hover:text-indigo-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                  aria-label={`${provider.label} 우선순위 올리기`}
+                >
+                  ▲
+                </button>
+                <button
+                  onClick={() => handleMoveProvider(orderIndex, 1)}
+                  disabled={isLoading || !isEnabled || orderIndex === providerOrder.length - 1}
+                  className="px-2 text-gray-500 hover:text-indigo-500 disabled:opacity-30 disabled:cursor-not-allowed"
+                  aria-label={`${provider.label} 우선순위 내리기`}
+                >
+                  ▼
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
       <div className="flex flex-col sm:flex-row gap-3">
         <button
           onClick={handleConfirm}
-          disabled={isLoading || editedKeywords.every(kw => kw.trim() === '')}
+          disabled={isLoading || editedKeywords.every(kw => kw.trim() === '') || providerOrder.length === 0}
           className="flex-1 px-6 py-3 bg-indigo-500 text-white font-semibold rounded-lg hover:bg-indigo-600 transition-colors disabled:bg-gray-400 dark:disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center justify-center gap-2"
         >
           {isLoading ? (
@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+interface PostEditorProps {
+  value: string;
+  onChange: (html: string) => void;
+  contentClassName: string;
+}
+
+type EditorView = 'wysiwyg' | 'source';
+
+interface MovableBlock {
+  index: number;
+  label: string;
+}
+
+const HISTORY_LIMIT = 100;
+// Typing within this window is merged into a single undo step
+const HISTORY_MERGE_MS = 800;
+
+const parseBlocks = (html: string): HTMLDivElement => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+};
+
+/**
+ * Lists the injected images and the references section as top-level blocks that can be moved or removed
+ */
+const findMovableBlocks = (html: string): MovableBlock[] => {
+  const children = Array.from(parseBlocks(html).children);
+  return children.flatMap((element, index) => {
+    if (element.tagName === 'FIGURE') {
+      const alt = element.querySelector('img')?.getAttribute('alt') || '';
+      return [{ index, label: `이미지${alt ? `: ${alt}` : ''}` }];
+    }
+    if (element.classList.contains('references-section')) {
+      return [{ index, label: '참고 자료' }];
+    }
+    return [];
+  });
+};
+
+const moveBlock = (html: string, index: number, direction: -1 | 1): string => {
+  const container = parseBlocks(html);
+  const children = Array.from(container.children);
+  const element = children[index];
+  const sibling = children[index + direction];
+  if (!element || !sibling) return html;
+  if (direction === -1) {
+    container.insertBefore(element, sibling);
+  } else {
+    container.insertBefore(sibling, element);
+  }
+  return container.innerHTML;
+};
+
+const removeBlock = (html: string, index: number): string => {
+  const container = parseBlocks(html);
+  container.children[index]?.remove();
+  return container.innerHTML;
+};
+
+interface ToolButtonProps {
+  onClick: () => void;
+  label: string;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+const ToolButton: React.FC<ToolButtonProps> = ({ onClick, label, disabled, children }) => (
+  <button
+    // Keep the editor selection when clicking toolbar buttons
+    onMouseDown={(e) => e.preventDefault()}
+    onClick={onClick}
+    disabled={disabled}
+    title={label}
+    aria-label={label}
+    className="px-2.5 py-1 text-xs font-medium rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+  >
+    {children}
+  </button>
+);
+
+const PostEditor: React.FC<PostEditorProps> = ({ value, onChange, contentClassName }) => {
+  const [view, setView] = useState<EditorView>('wysiwyg');
+  const [history, setHistory] = useState<string[]>([value]);
+  const [historyIndex, setHistoryIndex] = useState<number>(0);
+  const lastEditRef = useRef<number>(0);
+  const editableRef = useRef<HTMLDivElement>(null);
+
+  // Sync external changes (undo, source edits, block moves) into the editable view
+  useEffect(() => {
+    if (view === 'wysiwyg' && editableRef.current && editableRef.current.innerHTML !== value) {
+      editableRef.current.innerHTML = value;
+    }
+  }, [value, view]);
+
+  const commit = useCallback((html: string, mergeWithPrevious: boolean = false) => {
+    if (html === history[historyIndex]) return;
+    const now = Date.now();
+    const merge = mergeWithPrevious && historyIndex > 0 && now - lastEditRef.current < HISTORY_MERGE_MS;
+    lastEditRef.current = now;
+
+    const base = history.slice(0, merge ? historyIndex : historyIndex + 1);
+    const next = [...base, html].slice(-HISTORY_LIMIT);
+    setHistory(next);
+    setHistoryIndex(next.length - 1);
+    onChange(html);
+  }, [history, historyIndex, onChange]);
+
+  const handleUndo = () => {
+    if (historyIndex === 0) return;
+    setHistoryIndex(historyIndex - 1);
+    onChange(history[historyIndex - 1]);
+  };
+
+  const handleRedo = () => {
+    if (historyIndex >= history.length - 1) return;
+    setHistoryIndex(historyIndex + 1);
+    onChange(history[historyIndex + 1]);
+  };
+
+  const handleInput = () => {
+    if (editableRef.current) {
+      commit(editableRef.current.innerHTML, true);
+    }
+  };
+
+  const runCommand = (command: string, argument?: string) => {
+    editableRef.current?.focus();
+    document.execCommand(command, false, argument);
+    if (editableRef.current) {
+      commit(editableRef.current.innerHTML);
+    }
+  };
+
+  const handleInsertLink = () => {
+    const url = window.prompt('링크 URL을 입력하세요', 'https://');
+    if (url && url !== 'https://') {
+      runCommand('createLink', url);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+    e.preventDefault();
+    if (e.shiftKey) {
+      handleRedo();
+    } else {
+      handleUndo();
+    }
+  };
+
+  const blocks = findMovableBlocks(value);
+  const blockCount = parseBlocks(value).children.length;
+  const isWysiwyg = view === 'wysiwyg';
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* Editor Toolbar */}
+      <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 p-2 rounded-lg bg-gray-100 dark:bg-gray-900 border border-gray-200 dark:border-gray-700">
+        <ToolButton onClick={() => setView(isWysiwyg ? 'source' : 'wysiwyg')} label="보기 전환">
+          {isWysiwyg ? 'HTML 소스' : '편집 화면'}
+        </ToolButton>
+        <span className="w-px h-5 bg-gray-300 dark:bg-gray-600" />
+        <ToolButton onClick={() => runCommand('formatBlock', 'p')} label="문단" disabled={!isWysiwyg}>문단</ToolButton>
+        <ToolButton onClick={() => runCommand('formatBlock', 'h2')} label="제목 2" disabled={!isWysiwyg}>H2</ToolButton>
+        <ToolButton onClick={() => runCommand('formatBlock', 'h3')} label="제목 3" disabled={!isWysiwyg}>H3</ToolButton>
+        <ToolButton onClick={() => runCommand('insertUnorderedList')} label="글머리 기호 목록" disabled={!isWysiwyg}>• 목록</ToolButton>
+        <ToolButton onClick={() => runCommand('insertOrderedList')} label="번호 목록" disabled={!isWysiwyg}>1. 목록</ToolButton>
+        <ToolButton onClick={() => runCommand('bold')} label="굵게" disabled={!isWysiwyg}><strong>B</strong></ToolButton>
+        <ToolButton onClick={handleInsertLink} label="링크 삽입" disabled={!isWysiwyg}>링크</ToolButton>
+        <ToolButton onClick={() => runCommand('unlink')} label="링크 제거" disabled={!isWysiwyg}>링크 해제</ToolButton>
+        <span className="w-px h-5 bg-gray-300 dark:bg-gray-600" />
+        <ToolButton onClick={handleUndo} label="실행 취소" disabled={historyIndex === 0}>↶ 실행 취소</ToolButton>
+        <ToolButton onClick={handleRedo} label="다시 실행" disabled={historyIndex >= history.length - 1}>↷ 다시 실행</ToolButton>
+      </div>
+
+      {/* Images and references can be moved or removed as whole blocks */}
+      {blocks.length > 0 && (
+        <div className="p-3 rounded-lg border border-dashed border-gray-300 dark:border-gray-600">
+          <p className="text-xs font-semibold text-gray-600 dark:text-gray-300 mb-2">이미지 · 참고 자료 위치</p>
+          <ul className="space-y-1">
+            {blocks.map(block => (
+              <li key={block.index} className="flex items-center gap-2 text-sm">
+                <span className="flex-grow truncate text-gray-700 dark:text-gray-300">{block.label}</span>
+                <ToolButton onClick={() => commit(moveBlock(value, block.index, -1))} label="위로 이동" disabled={block.index === 0}>▲</ToolButton>
+                <ToolButton onClick={() => commit(moveBlock(value, block.index, 1))} label="아래로 이동" disabled={block.index === blockCount - 1}>▼</ToolButton>
+                <ToolButton onClick={() => commit(removeBlock(value, block.index))} label="삭제">삭제</ToolButton>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isWysiwyg ? (
+        <div
+          ref={editableRef}
+          contentEditable
+          suppressContentEditableWarning
+          onInput={handleInput}
+          onKeyDown={handleKeyDown}
+          className={`${contentClassName} min-h-[300px] p-4 rounded-lg border border-cyan-500/50 focus:outline-none focus:ring-2 focus:ring-cyan-500`}
+        />
+      ) : (
+        <textarea
+          value={value}
+          onChange={(e) => commit(e.target.value, true)}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          className="w-full min-h-[500px] p-4 rounded-lg font-mono text-xs bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 border border-gray-300 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          aria-label="HTML 소스"
+        />
+      )}
+    </div>
+  );
+};
+
+export default PostEditor;
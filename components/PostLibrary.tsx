@@ -0,0 +1,198 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { TEMPLATE_OPTIONS } from '../constants';
+import { deletePost, duplicatePost, listPosts, type LibraryPost } from '../services/postLibrary';
+import type { CustomTemplate, Template } from '../types';
+
+interface PostLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  refreshKey: number;
+  activePostId: string | null;
+  onOpenPost: (post: LibraryPost) => void;
+  onPostDeleted: (id: string) => void;
+  customTemplates: CustomTemplate[];
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ko-KR', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const templateLabel = (template: Template, customTemplates: CustomTemplate[]) =>
+  TEMPLATE_OPTIONS.find(option => option.value === template)?.label
+  || customTemplates.find(custom => custom.id === template)?.name
+  || '삭제된 템플릿';
+
+const PostLibrary: React.FC<PostLibraryProps> = ({
+  isOpen,
+  onClose,
+  refreshKey,
+  activePostId,
+  onOpenPost,
+  onPostDeleted,
+  customTemplates
+}) => {
+  const [posts, setPosts] = useState<LibraryPost[]>([]);
+  const [search, setSearch] = useState<string>('');
+  const [templateFilter, setTemplateFilter] = useState<Template | 'all'>('all');
+  const [tagFilter, setTagFilter] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const loadPosts = () => {
+    listPosts()
+      .then(result => {
+        setPosts(result);
+        setError('');
+      })
+      .catch(err => {
+        console.error('Failed to load library:', err);
+        setError('보관함을 불러오지 못했습니다.');
+      });
+  };
+
+  useEffect(() => {
+    if (isOpen) loadPosts();
+  }, [isOpen, refreshKey]);
+
+  const allTags = useMemo(
+    () => Array.from(new Set<string>(posts.flatMap(post => post.tags))).sort((a, b) => a.localeCompare(b, 'ko')),
+    [posts]
+  );
+
+  const filteredPosts = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return posts.filter(post => {
+      if (templateFilter !== 'all' && post.template !== templateFilter) return false;
+      if (tagFilter && !post.tags.includes(tagFilter)) return false;
+      if (!query) return true;
+      return [post.title, post.keyword, ...post.tags].some(text => text.toLowerCase().includes(query));
+    });
+  }, [posts, search, templateFilter, tagFilter]);
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicatePost(id);
+      loadPosts();
+    } catch (err) {
+      console.error('Failed to duplicate post:', err);
+      setError('글을 복제하지 못했습니다.');
+    }
+  };
+
+  const handleDelete = async (post: LibraryPost) => {
+    if (!window.confirm(`"${post.title}" 글을 삭제할까요?`)) return;
+    try {
+      await deletePost(post.id);
+      onPostDeleted(post.id);
+      loadPosts();
+    } catch (err) {
+      console.error('Failed to delete post:', err);
+      setError('글을 삭제하지 못했습니다.');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const selectClassName = "flex-1 min-w-0 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-2 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+  return (
+    <div className="fixed inset-0 z-40 flex">
+      <aside className="w-full max-w-sm h-full bg-white dark:bg-gray-900 border-r border-gray-300 dark:border-gray-700 shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">글 보관함 <span className="text-sm font-normal text-gray-500">({posts.length})</span></h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+            aria-label="보관함 닫기"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2 border-b border-gray-200 dark:border-gray-700">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="제목, 키워드, 태그 검색"
+            className="w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          />
+          <div className="flex gap-2">
+            <select
+              value={templateFilter}
+              onChange={(e) => setTemplateFilter(e.target.value as Template | 'all')}
+              className={selectClassName}
+              aria-label="템플릿 필터"
+            >
+              <option value="all">모든 템플릿</option>
+              {TEMPLATE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+              {customTemplates.map(custom => (
+                <option key={custom.id} value={custom.id}>{custom.name}</option>
+              ))}
+            </select>
+            <select
+              value={tagFilter}
+              onChange={(e) => setTagFilter(e.target.value)}
+              className={selectClassName}
+              aria-label="태그 필터"
+            >
+              <option value="">모든 태그</option>
+              {allTags.map(tag => (
+                <option key={tag} value={tag}>#{tag}</option>
+              ))}
+            </select>
+          </div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+
+        <ul className="flex-grow overflow-auto p-2 space-y-2">
+          {filteredPosts.length === 0 ? (
+            <li className="text-center text-sm text-gray-500 py-8">
+              {posts.length === 0 ? '저장된 글이 없습니다.' : '조건에 맞는 글이 없습니다.'}
+            </li>
+          ) : filteredPosts.map(post => (
+            <li
+              key={post.id}
+              className={`p-3 rounded-lg border transition-colors ${
+                post.id === activePostId
+                  ? 'border-cyan-500 bg-cyan-50 dark:bg-cyan-900/30'
+                  : 'border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800'
+              }`}
+            >
+              <button onClick={() => onOpenPost(post)} className="w-full text-left">
+                <p className="font-semibold text-sm text-gray-900 dark:text-white line-clamp-2">{post.title}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {post.keyword} · {templateLabel(post.template, customTemplates)} · {formatDate(post.updatedAt)}
+                </p>
+                {post.tags.length > 0 && (
+                  <p className="text-xs text-cyan-700 dark:text-cyan-300 mt-1 truncate">
+                    {post.tags.slice(0, 4).map(tag => `#${tag}`).join(' ')}
+                  </p>
+                )}
+              </button>
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={() => handleDuplicate(post.id)}
+                  className="text-xs px-2 py-1 rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600"
+                >
+                  복제
+                </button>
+                <button
+                  onClick={() => handleDelete(post)}
+                  className="text-xs px-2 py-1 rounded-md bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 hover:bg-red-200 dark:hover:bg-red-900/60"
+                >
+                  삭제
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </aside>
+      <div className="flex-grow bg-black/30" onClick={onClose} />
+    </div>
+  );
+};
+
+export default PostLibrary;
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { publishToWordPress } from '../services/apiClient';
+import { createEmptySiteProfile, loadPublishKey, loadSiteProfiles, savePublishKey, saveSiteProfiles } from '../services/siteProfileStore';
+import type { WordPressPublishResult } from '../services/wordpressService';
+import type { WordPressSiteProfile } from '../types';
+
+interface PublishDialogProps {
+  isOpen: boolean;
+  title: string;
+  post: string;
+  tags: string[];
+  onClose: () => void;
+}
+
+const inputClassName = "w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+const validateProfile = (profile: WordPressSiteProfile): string => {
+  if (!profile.name.trim()) return '사이트 이름을 입력해주세요.';
+  if (!/^https?:\/\/[^/\s]+/.test(profile.siteUrl.trim())) return '사이트 주소는 http:// 또는 https://로 시작해야 합니다.';
+  if (!profile.username.trim()) return '사용자 이름을 입력해주세요.';
+  if (!profile.applicationPassword.trim()) return '애플리케이션 비밀번호를 입력해주세요.';
+  return '';
+};
+
+const PublishDialog: React.FC<PublishDialogProps> = ({ isOpen, title, post, tags, onClose }) => {
+  const [profiles, setProfiles] = useState<WordPressSiteProfile[]>([]);
+  const [draft, setDraft] = useState<WordPressSiteProfile | null>(null);
+  const [status, setStatus] = useState<'draft' | 'publish'>('draft');
+  const [publishKey, setPublishKey] = useState<string>('');
+  const [isPublishing, setIsPublishing] = useState<boolean>(false);
+  const [result, setResult] = useState<WordPressPublishResult | null>(null);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const saved = loadSiteProfiles();
+    setProfiles(saved);
+    setDraft(saved[0] || createEmptySiteProfile());
+    setStatus(saved[0]?.defaultStatus || 'draft');
+    setPublishKey(loadPublishKey());
+    setResult(null);
+    setError('');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const isNew = !!draft && !profiles.some(profile => profile.id === draft.id);
+
+  const updateProfiles = (next: WordPressSiteProfile[]) => {
+    setProfiles(next);
+    saveSiteProfiles(next);
+  };
+
+  const selectProfile = (profile: WordPressSiteProfile) => {
+    setDraft(profile);
+    setStatus(profile.defaultStatus);
+    setResult(null);
+    setError('');
+  };
+
+  const updateDraft = (changes: Partial<WordPressSiteProfile>) => {
+    if (draft) setDraft({ ...draft, ...changes });
+  };
+
+  const saveDraft = (): WordPressSiteProfile | null => {
+    if (!draft) return null;
+    const validationError = validateProfile(draft);
+    if (validationError) {
+      setError(validationError);
+      return null;
+    }
+    const saved = { ...draft, siteUrl: draft.siteUrl.trim().replace(/\/+$/, ''), updatedAt: Date.now() };
+    updateProfiles(isNew ? [...profiles, saved] : profiles.map(profile => (profile.id === saved.id ? saved : profile)));
+    setDraft(saved);
+    setError('');
+    return saved;
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    if (!isNew) {
+      if (!window.confirm(`"${draft.name}" 사이트를 삭제할까요?`)) return;
+      updateProfiles(profiles.filter(profile => profile.id !== draft.id));
+    }
+    const next = profiles.find(profile => profile.id !== draft.id);
+    setDraft(next || createEmptySiteProfile());
+  };
+
+  const handlePublish = async () => {
+    // Publishing always uses the profile as shown, so unsaved edits are saved first
+    const profile = saveDraft();
+    if (!profile) return;
+    if (!publishKey.trim()) {
+      setError('발행 키를 입력해주세요.');
+      return;
+    }
+    savePublishKey(publishKey.trim());
+
+    setIsPublishing(true);
+    setResult(null);
+    setError('');
+    try {
+      const { siteUrl, username, applicationPassword } = profile;
+      setResult(await publishToWordPress({ siteUrl, username, applicationPassword }, { title, post, tags }, status, publishKey.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'WordPress에 발행하지 못했습니다.');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-3xl max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-2xl border border-gray-300 dark:border-gray-700 flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">WordPress 발행</h2>
+          <button
+            onClick={onClose}
+            disabled={isPublishing}
+            className="p-1 rounded-md text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+            aria-label="WordPress 발행 닫기"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-grow min-h-0">
+          {/* Site profiles */}
+          <div className="md:w-56 shrink-0 border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-700 p-3 flex flex-col gap-2 overflow-auto">
+            <button
+              onClick={() => selectProfile(createEmptySiteProfile())}
+              disabled={isPublishing}
+              className="w-full px-3 py-2 bg-cyan-500 text-white text-sm font-semibold rounded-lg hover:bg-cyan-600 transition-colors"
+            >
+              + 새 사이트
+            </button>
+            {profiles.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => selectProfile(profile)}
+                disabled={isPublishing}
+                className={`text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                  profile.id === draft?.id
+                    ? 'bg-cyan-100 dark:bg-cyan-900/40 text-cyan-800 dark:text-cyan-200 font-semibold'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                }`}
+              >
+                <span className="block truncate">{profile.name}</span>
+                <span className="block truncate text-xs font-normal text-gray-500">{profile.siteUrl}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Profile form and publish */}
+          {draft && (
+            <div className="flex-grow overflow-auto p-4 space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">사이트 이름</span>
+                  <input type="text" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className={`${inputClassName} mt-1`} />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">사이트 주소</span>
+                  <input type="url" value={draft.siteUrl} onChange={(e) => updateDraft({ siteUrl: e.target.value })} placeholder="https://blog.example.com" className={`${inputClassName} mt-1`} />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">사용자 이름</span>
+                  <input type="text" value={draft.username} onChange={(e) => updateDraft({ username: e.target.value })} autoComplete="off" className={`${inputClassName} mt-1`} />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">애플리케이션 비밀번호</span>
+                  <input
+                    type="password"
+                    value={draft.applicationPassword}
+                    onChange={(e) => updateDraft({ applicationPassword: e.target.value })}
+                    autoComplete="new-password"
+                    placeholder="xxxx xxxx xxxx xxxx xxxx xxxx"
+                    className={`${inputClassName} mt-1`}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">기본 발행 상태</span>
+                  <select
+                    value={draft.defaultStatus}
+                    onChange={(e) => updateDraft({ defaultStatus: e.target.value as WordPressSiteProfile['defaultStatus'] })}
+                    className={`${inputClassName} mt-1`}
+                  >
+                    <option value="draft">임시 글</option>
+                    <option value="publish">바로 발행</option>
+                  </select>
+                </label>
+              </div>
+              <p className="text-xs text-gray-500">
+                WordPress 관리자 화면의 사용자 → 프로필 → 애플리케이션 비밀번호에서 발급한 비밀번호를 사용하세요. 사이트 정보는 이 브라우저에만 저장됩니다.
+              </p>
+
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={saveDraft}
+                  disabled={isPublishing}
+                  className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                >
+                  사이트 저장
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={isPublishing}
+                  className="px-4 py-2 bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 text-sm font-semibold rounded-lg hover:bg-red-200 dark:hover:bg-red-900/60 transition-colors"
+                >
+                  {isNew ? '취소' : '삭제'}
+                </button>
+              </div>
+
+              <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+                <p className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                  <span className="font-semibold">발행할 글:</span> {title} <span className="text-gray-500">· 태그 {tags.length}개</span>
+                </p>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    type="password"
+                    value={publishKey}
+                    onChange={(e) => setPublishKey(e.target.value)}
+                    disabled={isPublishing}
+                    autoComplete="off"
+                    placeholder="발행 키 (PUBLISH_SECRET)"
+                    aria-label="발행 키"
+                    className="w-56 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  />
+                  <select
+                    value={status}
+                    onChange={(e) => setStatus(e.target.value as 'draft' | 'publish')}
+                    disabled={isPublishing}
+                    className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                  >
+                    <option value="draft">임시 글로 저장</option>
+                    <option value="publish">바로 발행</option>
+                  </select>
+                  <button
+                    onClick={handlePublish}
+                    disabled={isPublishing}
+                    className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                  >
+                    {isPublishing ? '업로드 중...' : 'WordPress로 보내기'}
+                  </button>
+                </div>
+
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+                {result && (
+                  <div className="p-3 rounded-lg bg-emerald-50 dark:bg-emerald-900/30 border border-emerald-200 dark:border-emerald-800 text-sm space-y-1">
+                    <p className="font-semibold text-emerald-800 dark:text-emerald-200">
+                      {result.status === 'publish' ? '발행되었습니다.' : '임시 글로 저장되었습니다.'} (이미지 {result.mediaIds.length}개 업로드)
+                    </p>
+                    <a href={result.url} target="_blank" rel="noopener noreferrer" className="block truncate text-blue-600 dark:text-blue-400 hover:underline">
+                      {result.url}
+                    </a>
+                    {result.warnings.map((warning, index) => (
+                      <p key={index} className="text-xs text-amber-700 dark:text-amber-300">{warning}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PublishDialog;
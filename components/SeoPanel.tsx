@@ -0,0 +1,87 @@
+import React, { useMemo, useState } from 'react';
+import { analyzeSeo, type SeoCheckStatus } from '../services/seoAnalyzer';
+import type { Language } from '../types';
+
+interface SeoPanelProps {
+  title: string;
+  post: string;
+  keyword: string;
+  language?: Language;
+}
+
+const STATUS_STYLES: Record<SeoCheckStatus, { icon: string; className: string }> = {
+  pass: { icon: '✓', className: 'text-emerald-600 dark:text-emerald-400' },
+  warn: { icon: '!', className: 'text-amber-600 dark:text-amber-400' },
+  fail: { icon: '✕', className: 'text-red-600 dark:text-red-400' },
+};
+
+const scoreClassName = (score: number) =>
+  score >= 80 ? 'text-emerald-600 dark:text-emerald-400' : score >= 50 ? 'text-amber-600 dark:text-amber-400' : 'text-red-600 dark:text-red-400';
+
+const CopyField: React.FC<{ label: string; value: string }> = ({ label, value }) => {
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(value).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    }).catch(err => console.error(`Failed to copy ${label}: `, err));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-semibold text-gray-600 dark:text-gray-300">{label}</span>
+        <button onClick={handleCopy} className="text-xs text-cyan-600 dark:text-cyan-400 hover:underline">
+          {copied ? '복사 완료!' : '복사'}
+        </button>
+      </div>
+      <p className="text-sm p-2 rounded-md bg-gray-100 dark:bg-gray-900/60 text-gray-800 dark:text-gray-200 break-all">{value || '-'}</p>
+    </div>
+  );
+};
+
+const SeoPanel: React.FC<SeoPanelProps> = ({ title, post, keyword, language }) => {
+  const report = useMemo(() => analyzeSeo(title, post, keyword, language), [title, post, keyword, language]);
+  const fixes = report.checks.filter(check => check.fix);
+
+  return (
+    <aside className="space-y-5" aria-label="SEO 분석">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-md font-semibold text-gray-800 dark:text-gray-200">SEO 분석</h3>
+        <span className={`text-3xl font-extrabold ${scoreClassName(report.score)}`}>
+          {report.score}<span className="text-sm font-medium text-gray-500">/100</span>
+        </span>
+      </div>
+      {!keyword.trim() && (
+        <p className="text-xs text-amber-700 dark:text-amber-300">키워드가 없어 키워드 관련 항목을 평가할 수 없습니다.</p>
+      )}
+
+      <ul className="space-y-2">
+        {report.checks.map(check => (
+          <li key={check.id} className="flex gap-2 text-sm">
+            <span className={`w-4 shrink-0 font-bold text-center ${STATUS_STYLES[check.status].className}`}>{STATUS_STYLES[check.status].icon}</span>
+            <div className="min-w-0">
+              <p className="font-medium text-gray-800 dark:text-gray-200">{check.label}</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{check.detail}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {fixes.length > 0 && (
+        <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+          <p className="text-xs font-semibold text-amber-800 dark:text-amber-200 mb-2">개선할 점</p>
+          <ol className="list-decimal pl-4 space-y-1 text-xs text-amber-900 dark:text-amber-100">
+            {fixes.map(check => <li key={check.id}>{check.fix}</li>)}
+          </ol>
+        </div>
+      )}
+
+      <CopyField label="메타 설명" value={report.metaDescription} />
+      <CopyField label="URL 슬러그" value={report.slug} />
+    </aside>
+  );
+};
+
+export default SeoPanel;
@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import { cloneTemplate, createEmptyTemplate } from '../services/templateStore';
+import type { CustomTemplate, CustomTemplateId, TemplateSection } from '../types';
+
+interface TemplateManagerProps {
+  isOpen: boolean;
+  templates: CustomTemplate[];
+  onChange: (templates: CustomTemplate[]) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 text-gray-900 dark:text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const smallButtonClassName = "text-xs px-2 py-1 rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed";
+
+const validateTemplate = (template: CustomTemplate): string => {
+  if (!template.name.trim()) return '템플릿 이름을 입력해주세요.';
+  if (!template.persona.trim()) return '페르소나 설명을 입력해주세요.';
+  if (template.sections.length === 0 || template.sections.some(section => !section.heading.trim())) {
+    return '모든 섹션에 제목을 입력해주세요.';
+  }
+  if (template.length && (template.length.min <= 0 || template.length.max < template.length.min)) {
+    return '분량 범위가 올바르지 않습니다.';
+  }
+  if (template.tagCount !== undefined && (template.tagCount < 1 || template.tagCount > 30)) {
+    return '태그 개수는 1~30 사이여야 합니다.';
+  }
+  return '';
+};
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ isOpen, templates, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState<CustomTemplateId | null>(null);
+  const [draft, setDraft] = useState<CustomTemplate | null>(null);
+  const [error, setError] = useState<string>('');
+
+  // Reset the selection only when the dialog opens, not on every template change
+  useEffect(() => {
+    if (!isOpen) return;
+    const first = templates[0] || null;
+    setSelectedId(first?.id || null);
+    setDraft(first);
+    setError('');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const isNew = !!draft && !templates.some(template => template.id === draft.id);
+
+  const selectTemplate = (template: CustomTemplate) => {
+    setSelectedId(template.id);
+    setDraft(template);
+    setError('');
+  };
+
+  const updateDraft = (changes: Partial<CustomTemplate>) => {
+    if (draft) setDraft({ ...draft, ...changes });
+  };
+
+  const updateSection = (index: number, changes: Partial<TemplateSection>) => {
+    if (!draft) return;
+    updateDraft({ sections: draft.sections.map((section, i) => (i === index ? { ...section, ...changes } : section)) });
+  };
+
+  const moveSection = (index: number, direction: -1 | 1) => {
+    if (!draft) return;
+    const target = index + direction;
+    if (target < 0 || target >= draft.sections.length) return;
+    const sections = [...draft.sections];
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    updateDraft({ sections });
+  };
+
+  const handleCreate = () => {
+    const template = createEmptyTemplate();
+    setSelectedId(template.id);
+    setDraft(template);
+    setError('');
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const validationError = validateTemplate(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    const saved = { ...draft, updatedAt: Date.now() };
+    onChange(isNew ? [...templates, saved] : templates.map(template => (template.id === saved.id ? saved : template)));
+    setDraft(saved);
+    setError('');
+  };
+
+  const handleClone = () => {
+    if (!draft || isNew) return;
+    const clone = cloneTemplate(draft);
+    onChange([...templates, clone]);
+    selectTemplate(clone);
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    if (!isNew) {
+      if (!window.confirm(`"${draft.name}" 템플릿을 삭제할까요?`)) return;
+      onChange(templates.filter(template => template.id !== draft.id));
+    }
+    const next = templates.find(template => template.id !== draft.id) || null;
+    setSelectedId(next?.id || null);
+    setDraft(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-4xl max-h-[90vh] bg-white dark:bg-gray-900 rounded-xl shadow-2xl border border-gray-300 dark:border-gray-700 flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">템플릿 관리</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+            aria-label="템플릿 관리 닫기"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-grow min-h-0">
+          {/* Template list */}
+          <div className="md:w-60 shrink-0 border-b md:border-b-0 md:border-r border-gray-200 dark:border-gray-700 p-3 flex flex-col gap-2 overflow-auto">
+            <button
+              onClick={handleCreate}
+              className="w-full px-3 py-2 bg-cyan-500 text-white text-sm font-semibold rounded-lg hover:bg-cyan-600 transition-colors"
+            >
+              + 새 템플릿
+            </button>
+            {templates.length === 0 && !draft && (
+              <p className="text-sm text-gray-500 text-center py-4">아직 만든 템플릿이 없습니다.</p>
+            )}
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => selectTemplate(template)}
+                className={`text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                  template.id === selectedId
+                    ? 'bg-cyan-100 dark:bg-cyan-900/40 text-cyan-800 dark:text-cyan-200 font-semibold'
+                    : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                }`}
+              >
+                {template.name}
+              </button>
+            ))}
+          </div>
+
+          {/* Template form */}
+          {draft ? (
+            <div className="flex-grow overflow-auto p-4 space-y-4">
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">이름</span>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  className={`${inputClassName} mt-1`}
+                />
+              </label>
+
+              <label className="block">
+                <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">페르소나</span>
+                <textarea
+                  value={draft.persona}
+                  onChange={(e) => updateDraft({ persona: e.target.value })}
+                  rows={2}
+                  placeholder="예) 당신은 부동산 전문 칼럼니스트입니다."
+                  className={`${inputClassName} mt-1`}
+                />
+              </label>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">섹션 구성 (&lt;h2&gt; 순서)</span>
+                  <button
+                    onClick={() => updateDraft({ sections: [...draft.sections, { heading: '', guidance: '' }] })}
+                    className={smallButtonClassName}
+                  >
+                    + 섹션 추가
+                  </button>
+                </div>
+                <ol className="space-y-3">
+                  {draft.sections.map((section, index) => (
+                    <li key={index} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-semibold text-gray-500 w-5">{index + 1}</span>
+                        <input
+                          type="text"
+                          value={section.heading}
+                          onChange={(e) => updateSection(index, { heading: e.target.value })}
+                          placeholder="섹션 제목"
+                          className={inputClassName}
+                        />
+                        <button onClick={() => moveSection(index, -1)} disabled={index === 0} className={smallButtonClassName} aria-label="섹션 위로">▲</button>
+                        <button onClick={() => moveSection(index, 1)} disabled={index === draft.sections.length - 1} className={smallButtonClassName} aria-label="섹션 아래로">▼</button>
+                        <button
+                          onClick={() => updateDraft({ sections: draft.sections.filter((_, i) => i !== index) })}
+                          className={smallButtonClassName}
+                          aria-label="섹션 삭제"
+                        >
+                          삭제
+                        </button>
+                      </div>
+                      <textarea
+                        value={section.guidance}
+                        onChange={(e) => updateSection(index, { guidance: e.target.value })}
+                        rows={2}
+                        placeholder="이 섹션에서 다룰 내용"
+                        className={inputClassName}
+                      />
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">최소 분량 (자)</span>
+                  <input
+                    type="number"
+                    min={500}
+                    step={500}
+                    value={draft.length?.min ?? ''}
+                    placeholder="3000"
+                    onChange={(e) => updateDraft({ length: e.target.value ? { min: Number(e.target.value), max: draft.length?.max ?? 4000 } : undefined })}
+                    className={`${inputClassName} mt-1`}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">최대 분량 (자)</span>
+                  <input
+                    type="number"
+                    min={500}
+                    step={500}
+                    value={draft.length?.max ?? ''}
+                    placeholder="4000"
+                    onChange={(e) => updateDraft({ length: e.target.value ? { min: draft.length?.min ?? 3000, max: Number(e.target.value) } : undefined })}
+                    className={`${inputClassName} mt-1`}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">태그 개수</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={30}
+                    value={draft.tagCount ?? ''}
+                    placeholder="10"
+                    onChange={(e) => updateDraft({ tagCount: e.target.value ? Number(e.target.value) : undefined })}
+                    className={`${inputClassName} mt-1`}
+                  />
+                </label>
+              </div>
+
+              {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+              <div className="flex flex-wrap gap-2 pt-2">
+                <button
+                  onClick={handleSave}
+                  className="px-4 py-2 bg-cyan-500 text-white text-sm font-semibold rounded-lg hover:bg-cyan-600 transition-colors"
+                >
+                  저장
+                </button>
+                <button
+                  onClick={handleClone}
+                  disabled={isNew}
+                  className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm font-semibold rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  복제
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="px-4 py-2 bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 text-sm font-semibold rounded-lg hover:bg-red-200 dark:hover:bg-red-900/60 transition-colors"
+                >
+                  {isNew ? '취소' : '삭제'}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-grow flex items-center justify-center p-8 text-sm text-gray-500">
+              '새 템플릿'을 눌러 나만의 글 구조를 만들어 보세요.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManager;
@@ -1,2 +1,49 @@
-// This file is no longer in use and can be safely deleted.
-// The application logic has been migrated to `services/geminiService.ts` and `App.tsx`.
+import type { BuiltInTemplate, CitationStyle, DateRange, GenerationStage, Language, LengthPreset, LengthTarget } from './types';
+
+export const DATE_RANGE_OPTIONS: { value: DateRange; label: string }[] = [
+  { value: 'all', label: '전체 기간' },
+  { value: 'day', label: '지난 24시간' },
+  { value: 'week', label: '지난 1주' },
+  { value: 'month', label: '지난 1개월' },
+  { value: 'year', label: '지난 1년' },
+];
+
+export const TEMPLATE_OPTIONS: { value: BuiltInTemplate; label: string }[] = [
+  { value: 'default', label: '기본 뉴스 분석' },
+  { value: 'review', label: '제품/서비스 리뷰' },
+  { value: 'interview', label: '전문가 인터뷰 형식' },
+  { value: 'qa', label: 'Q&A 형식' },
+  { value: 'investment', label: '투자전략 보고서' },
+];
+
+export const LANGUAGE_OPTIONS: { value: Language; label: string }[] = [
+  { value: 'ko', label: '한국어' },
+  { value: 'en', label: 'English' },
+  { value: 'ja', label: '日本語' },
+];
+
+export const LENGTH_PRESETS: Record<Exclude<LengthPreset, 'custom'>, LengthTarget> = {
+  short: { min: 1500, max: 2500 },
+  standard: { min: 3000, max: 4000 },
+  long: { min: 6000, max: 8000 },
+};
+
+export const LENGTH_OPTIONS: { value: LengthPreset; label: string }[] = [
+  { value: 'short', label: '짧게 (1,500~2,500자)' },
+  { value: 'standard', label: '표준 (3,000~4,000자)' },
+  { value: 'long', label: '롱폼 (6,000~8,000자)' },
+  { value: 'custom', label: '직접 입력' },
+];
+
+export const CITATION_STYLE_OPTIONS: { value: CitationStyle; label: string }[] = [
+  { value: 'numbered', label: '번호 목록' },
+  { value: 'list', label: '단순 목록' },
+  { value: 'apa', label: 'APA (검색일 포함)' },
+];
+
+export const GENERATION_STAGE_OPTIONS: { value: GenerationStage; label: string }[] = [
+  { value: 'searching', label: '뉴스 검색 중' },
+  { value: 'writing', label: '본문 작성 중' },
+  { value: 'tagging', label: '태그 정리 중' },
+  { value: 'sourcing', label: '출처 확인 중' },
+];
@@ -0,0 +1,113 @@
+// Minimal in-memory WordPress REST API for testing /api/publish without a real site.
+// Usage: node fixtures/wordpress/mock-server.mjs [port]
+// Site profile: http://localhost:8787, user "admin", application password "mock pass"
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] || process.env.PORT || 8787);
+const origin = `http://localhost:${port}`;
+const credentials = `Basic ${Buffer.from('admin:mock pass').toString('base64')}`;
+
+// Like WordPress, term names are stored HTML-escaped, so searching "R&D" misses "R&amp;D"
+// and creating it again answers term_exists
+const tags = [{ id: 1, name: '반도체', slug: 'semiconductor' }, { id: 2, name: 'R&amp;D', slug: 'r-d' }];
+const media = [];
+const posts = [];
+const files = new Map();
+let nextId = 100;
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const send = (res, status, data) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(data));
+};
+
+const wpError = (res, status, code, message, data = {}) => send(res, status, { code, message, data: { status, ...data } });
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, origin);
+  const body = await readBody(req);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  if (req.method === 'GET' && files.has(url.pathname)) {
+    const file = files.get(url.pathname);
+    res.writeHead(200, { 'Content-Type': file.type });
+    return res.end(file.data);
+  }
+
+  if (!url.pathname.startsWith('/wp-json/wp/v2/')) {
+    return wpError(res, 404, 'rest_no_route', 'No route was found matching the URL and request method.');
+  }
+  if (req.headers.authorization !== credentials) {
+    return wpError(res, 401, 'rest_not_logged_in', 'You are not currently logged in.');
+  }
+
+  const route = url.pathname.replace('/wp-json/wp/v2', '');
+  const json = () => JSON.parse(body.toString('utf8') || '{}');
+
+  if (route === '/tags' && req.method === 'GET') {
+    const search = (url.searchParams.get('search') || '').toLowerCase();
+    return send(res, 200, tags.filter(tag => tag.name.toLowerCase().includes(search)));
+  }
+
+  if (route === '/tags' && req.method === 'POST') {
+    const name = json().name.replace(/&/g, '&amp;');
+    const existing = tags.find(tag => tag.name === name);
+    if (existing) {
+      return wpError(res, 400, 'term_exists', 'A term with the name provided already exists.', { term_id: existing.id });
+    }
+    const tag = { id: nextId++, name, slug: encodeURIComponent(name) };
+    tags.push(tag);
+    return send(res, 201, tag);
+  }
+
+  if (route === '/media' && req.method === 'POST') {
+    const disposition = req.headers['content-disposition'] || '';
+    const fileName = decodeURIComponent(disposition.match(/filename="?([^";]+)"?/)?.[1] || 'upload.jpg');
+    const id = nextId++;
+    const path = `/wp-content/uploads/${id}-${fileName}`;
+    files.set(path, { type: req.headers['content-type'] || 'application/octet-stream', data: body });
+    const item = { id, source_url: `${origin}${path}`, alt_text: '', caption: { rendered: '' } };
+    media.push(item);
+    return send(res, 201, item);
+  }
+
+  const mediaMatch = route.match(/^\/media\/(\d+)$/);
+  if (mediaMatch && req.method === 'POST') {
+    const item = media.find(entry => entry.id === Number(mediaMatch[1]));
+    if (!item) return wpError(res, 404, 'rest_post_invalid_id', 'Invalid post ID.');
+    const { alt_text, caption } = json();
+    if (alt_text !== undefined) item.alt_text = alt_text;
+    if (caption !== undefined) item.caption = { rendered: caption };
+    return send(res, 200, item);
+  }
+
+  if (route === '/posts' && req.method === 'POST') {
+    const { title, content, status = 'draft', tags: tagIds = [], featured_media = 0 } = json();
+    const id = nextId++;
+    const post = {
+      id,
+      status,
+      link: status === 'publish' ? `${origin}/?p=${id}` : `${origin}/?p=${id}&preview=true`,
+      title: { raw: title },
+      content: { raw: content },
+      tags: tagIds,
+      featured_media,
+    };
+    posts.push(post);
+    return send(res, 201, post);
+  }
+
+  if (route === '/posts' && req.method === 'GET') {
+    return send(res, 200, posts);
+  }
+
+  return wpError(res, 404, 'rest_no_route', 'No route was found matching the URL and request method.');
+}).listen(port, () => {
+  console.log(`Mock WordPress API listening on ${origin}/wp-json/wp/v2`);
+});
@@ -0,0 +1,66 @@
+// Offline end-to-end check: generates a post from the recorded LLM fixture and injects
+// photos from the local image provider, with no API keys or network access.
+// Usage: npm test (or node scripts/check-offline.mjs)
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+process.env.LLM_PROVIDER = 'fixture';
+process.env.LLM_FIXTURE_PATH = 'fixtures/llm/sample.json';
+process.env.LOCAL_IMAGE_MANIFEST = 'fixtures/images/manifest.json';
+
+// Vite compiles the TypeScript services on the fly, the same way `npm run dev` serves them
+const vite = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true },
+});
+
+try {
+  const { generateBlogPost, fetchAndInjectImages } = await vite.ssrLoadModule('/services/geminiService.ts');
+  const { verifyPostLength } = await vite.ssrLoadModule('/services/postLength.ts');
+  const { findUnsupportedParagraphs } = await vite.ssrLoadModule('/services/citations.ts');
+
+  const result = await generateBlogPost('AI 반도체', 'week', 'default', { length: { min: 500, max: 2000 } });
+
+  assert.equal(result.title, 'AI 반도체 전쟁: HBM부터 파운드리까지 지금 알아야 할 핵심 동향');
+  assert.equal(result.language, 'ko');
+  assert.equal(result.tags.length, 10);
+  assert.ok(result.tags.includes('HBM'));
+  assert.deepEqual(result.imageKeywords, ['AI chip', 'semiconductor factory', 'data center servers']);
+  assert.doesNotMatch(result.post, /\[\/?(TITLE|POST|TAGS|IMAGE_KEYWORDS|SOURCES)\]/);
+  assert.equal(verifyPostLength(result.post, result.lengthTarget, result.language).status, 'within');
+
+  assert.equal(result.sources.length, 3);
+  for (const source of result.sources) {
+    assert.ok(source.title && source.outlet, `source without title or outlet: ${JSON.stringify(source)}`);
+  }
+
+  // Every grounding support, including the one quoting inline HTML, gets a marker
+  assert.equal(result.post.match(/<sup class="citation"/g)?.length, 3);
+  assert.match(result.post, /<strong>HBM<\/strong>\)는 AI 가속기의 성능을 좌우하는 핵심 부품으로 자리잡았고<sup class="citation"/);
+  const citationReport = findUnsupportedParagraphs(result.post);
+  assert.equal(citationReport.totalParagraphs, 5);
+  assert.equal(citationReport.unsupportedParagraphs.length, 2);
+
+  const { post, imagesFound } = await fetchAndInjectImages(result.post, result.imageKeywords, 'AI 반도체', ['local'], result.language);
+
+  assert.equal(imagesFound, true);
+  const figures = Array.from(post.matchAll(/<figure\b[^>]*>([\s\S]*?)<\/figure>/g), match => match[1]);
+  assert.equal(figures.length, 3);
+  assert.deepEqual(
+    figures.map(figure => figure.match(/<img src="([^"]+)"/)?.[1]),
+    ['/images/ai-chip.jpg', '/images/semiconductor-factory.jpg', '/images/data-center.jpg']
+  );
+  assert.match(figures[0], /alt="AI chip on a circuit board"/);
+  // Credits come from the manifest and are escaped into the caption
+  assert.match(figures[0], /<a href="https:\/\/example\.com\/credits\?photo=ai-chip&amp;ref=blog"[^>]*>Brand &lt;Studio&gt; &amp; Co<\/a>/);
+  assert.match(figures[1], /<figcaption[^>]*>\s*Brand Studio\s*<\/figcaption>/);
+  assert.doesNotMatch(figures[2], /<figcaption/);
+  // Images go between paragraphs and leave the text untouched
+  assert.equal(post.replace(/\s*<figure\b[\s\S]*?<\/figure>\s*/g, ''), result.post);
+
+  console.log('Offline generation check passed');
+} finally {
+  await vite.close();
+}
@@ -0,0 +1,227 @@
+// Focused checks for the pure helpers behind digest links, retries, source matching,
+// citations, batch input, digest deduplication and the WordPress site URL guard. No network access or API keys.
+// Usage: npm test (or node scripts/check-units.mjs)
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+process.env.LINK_SIGNING_SECRET = 'unit-check-secret';
+delete process.env.DIGEST_LINK_TTL_HOURS;
+
+const vite = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true },
+});
+
+const HOUR = 60 * 60 * 1000;
+
+try {
+  // Digest link tokens: valid until the TTL, rejected when altered
+  {
+    const { LinkTokenError, signLinkToken, verifyLinkToken } = await vite.ssrLoadModule('/services/linkTokens.ts');
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    const link = { action: 'generate', keyword: 'AI 반도체', template: 'default', language: 'ko' };
+    const token = signLinkToken(link, now);
+    const rejects = (value, at, reason) =>
+      assert.throws(() => verifyLinkToken(value, at), error => error instanceof LinkTokenError && error.reason === reason);
+
+    assert.deepEqual(verifyLinkToken(token, now + 71 * HOUR), link);
+    rejects(token, now + 73 * HOUR, 'expired');
+
+    const [payload, signature] = token.split('.');
+    const forged = Buffer.from(JSON.stringify({ ...link, exp: now + 1000 * HOUR })).toString('base64url');
+    rejects(`${forged}.${signature}`, now, 'invalid');
+    rejects(`${payload}.${signature.slice(1)}x`, now, 'invalid');
+    rejects(`${payload}.${signature}.extra`, now, 'invalid');
+    rejects(payload, now, 'invalid');
+
+    process.env.LINK_SIGNING_SECRET = 'rotated-secret';
+    rejects(token, now, 'invalid');
+    process.env.LINK_SIGNING_SECRET = 'unit-check-secret';
+  }
+
+  // Retry-After and Gemini's retryDelay set the wait; longer waits than the cap are not retried
+  {
+    const { HttpStatusError, parseRetryAfter, withRetry } = await vite.ssrLoadModule('/services/retry.ts');
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    assert.equal(parseRetryAfter('2', now), 2000);
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now), 5000);
+    assert.equal(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now), 0);
+    assert.equal(parseRetryAfter('soon', now), undefined);
+    assert.equal(parseRetryAfter(null, now), undefined);
+
+    const policy = { retries: 2, baseDelayMs: 1, maxDelayMs: 200 };
+    const warn = console.warn;
+    console.warn = () => {};
+    try {
+      const failing = (errors) => {
+        const calls = [];
+        const operation = async () => {
+          calls.push(Date.now());
+          const error = errors[calls.length - 1];
+          if (error) throw error;
+          return 'ok';
+        };
+        return { calls, operation };
+      };
+
+      const throttled = failing([new HttpStatusError('Test', 429, 'Too Many Requests', 50)]);
+      assert.equal(await withRetry(throttled.operation, { label: 'Test', policy }), 'ok');
+      assert.equal(throttled.calls.length, 2);
+      assert.ok(throttled.calls[1] - throttled.calls[0] >= 45, 'Retry-After was not waited for');
+
+      // The Gemini SDK's ApiError carries the status and the JSON error body as its message
+      const geminiError = new Error('{"error":{"code":429,"details":[{"retryDelay": "0.05s"}]}}');
+      geminiError.status = 429;
+      const geminiThrottled = failing([geminiError]);
+      assert.equal(await withRetry(geminiThrottled.operation, { label: 'Test', policy }), 'ok');
+      assert.ok(geminiThrottled.calls[1] - geminiThrottled.calls[0] >= 45, 'retryDelay was not waited for');
+
+      const tooLong = failing([new HttpStatusError('Test', 503, 'Service Unavailable', 60000)]);
+      await assert.rejects(withRetry(tooLong.operation, { label: 'Test', policy }), HttpStatusError);
+      assert.equal(tooLong.calls.length, 1);
+
+      const badRequest = failing([new HttpStatusError('Test', 400, 'Bad Request')]);
+      await assert.rejects(withRetry(badRequest.operation, { label: 'Test', policy }), HttpStatusError);
+      assert.equal(badRequest.calls.length, 1);
+
+      const unavailable = failing([1, 2, 3].map(() => new HttpStatusError('Test', 503, 'Service Unavailable')));
+      await assert.rejects(withRetry(unavailable.operation, { label: 'Test', policy }), HttpStatusError);
+      assert.equal(unavailable.calls.length, 3);
+    } finally {
+      console.warn = warn;
+    }
+  }
+
+  // Source titles are linked by outlet domain first and title similarity otherwise
+  {
+    const { matchSources, titleSimilarity } = await vite.ssrLoadModule('/services/outlets.ts');
+    assert.equal(titleSimilarity('HBM 양산 시작!', 'hbm 양산시작'), 1);
+    assert.equal(titleSimilarity('반도체', '자동차'), 0);
+    assert.equal(titleSimilarity('', ''), 0);
+    assert.ok(titleSimilarity('삼성전자 HBM 양산 시작', '삼성전자, HBM 양산 본격 시작') > 0.6);
+
+    const outlets = [
+      { name: '연합뉴스', aliases: ['연합'], domains: ['yna.co.kr'] },
+      { name: '조선일보', domains: ['chosun.com'] },
+      { name: '조선비즈', domains: ['biz.chosun.com'] },
+    ];
+    const matches = matchSources(
+      ['삼성전자 HBM 양산 시작 - 연합', 'SK하이닉스 실적 발표 - 조선비즈', 'AI 반도체 시장 전망 - 테크블로그', '관련 없는 제목 - 어딘가'],
+      [
+        { title: 'chosun.com', url: 'https://www.chosun.com/a' },
+        { title: 'biz.chosun.com', url: 'https://biz.chosun.com/b' },
+        { title: 'AI 반도체 시장 전망 보고서', url: 'https://blog.example.com/c' },
+        { title: 'yna.co.kr', url: 'https://www.yna.co.kr/d' },
+      ],
+      outlets,
+    );
+
+    assert.deepEqual(matches.map(match => match.url), ['https://www.yna.co.kr/d', 'https://biz.chosun.com/b', 'https://blog.example.com/c', '']);
+    assert.deepEqual(matches.map(match => match.outlet), ['연합뉴스', '조선비즈', '테크블로그', '어딘가']);
+    assert.deepEqual(matches.map(match => match.chunkIndex), [3, 1, 2, undefined]);
+    assert.ok(matches[0].confidence >= 0.8 && matches[2].confidence > 0.6);
+    assert.equal(matches[3].confidence, 0);
+    // A candidate is linked to one source only, and chunks without a URL never
+    const repeated = matchSources(
+      ['HBM 양산 - 연합뉴스', 'HBM 수출 - 연합뉴스'],
+      [{ title: 'yna.co.kr', url: 'https://www.yna.co.kr/d' }, { title: 'HBM 수출', url: '' }],
+      outlets,
+    );
+    assert.equal(repeated.filter(match => match.url).length, 1);
+  }
+
+  // Citation markers go after the supported text, through inline tags and entities, and renumber cleanly
+  {
+    const { insertCitations, renderCitationMarker, renumberCitations } = await vite.ssrLoadModule('/services/citations.ts');
+    const post = '<p>첫 문장입니다. 둘째 <strong>문장</strong>입니다.</p><p>R&amp;D 투자가 늘었다.</p>';
+    const cited = insertCitations(post, [
+      { text: '첫 문장입니다.', referenceNumbers: [2, 1] },
+      { text: '둘째 <strong>문장</strong>입니다.', referenceNumbers: [1] },
+      { text: 'R&D 투자가 늘었다.', referenceNumbers: [3] },
+      { text: '본문에 없는 문장', referenceNumbers: [4] },
+      { text: '첫 문장입니다.', referenceNumbers: [] },
+    ]);
+    assert.equal(
+      cited,
+      `<p>첫 문장입니다.${renderCitationMarker([1, 2])} 둘째 <strong>문장</strong>입니다.${renderCitationMarker([1])}</p>` +
+        `<p>R&amp;D 투자가 늘었다.${renderCitationMarker([3])}</p>`
+    );
+
+    // Source 1 removed: its markers go and the others move up
+    assert.equal(
+      renumberCitations(cited, number => (number === 1 ? null : number - 1)),
+      `<p>첫 문장입니다.${renderCitationMarker([1])} 둘째 <strong>문장</strong>입니다.</p>` +
+        `<p>R&amp;D 투자가 늘었다.${renderCitationMarker([2])}</p>`
+    );
+    assert.equal(renumberCitations(post, () => null), post);
+  }
+
+  // Batch input: one job per line, template and date range by id or label
+  {
+    const { parseBatchInput } = await vite.ssrLoadModule('/services/batchQueue.ts');
+    const defaults = { template: 'default', dateRange: 'week', language: 'ko', length: { min: 3000, max: 4000 }, imageMode: 'auto' };
+    const customTemplates = [{ id: 'custom:brief', name: '브리핑', persona: '', sections: [] }];
+    const { jobs, errors } = parseBatchInput(
+      ['AI 반도체', ' HBM | review | month ', '전기차\tQ&A 형식\t지난 1년', '', '로봇 | 브리핑', '드론 | 없는 템플릿', '위성 | qa | 내일'].join('\n'),
+      defaults,
+      customTemplates,
+    );
+
+    assert.deepEqual(
+      jobs.map(({ keyword, template, dateRange }) => [keyword, template, dateRange]),
+      [
+        ['AI 반도체', 'default', 'week'],
+        ['HBM', 'review', 'month'],
+        ['전기차', 'qa', 'year'],
+        ['로봇', 'custom:brief', 'week'],
+      ]
+    );
+    assert.equal(jobs[0].imageMode, 'auto');
+    assert.deepEqual(errors, ['6번째 줄: 알 수 없는 템플릿 "없는 템플릿"', '7번째 줄: 알 수 없는 기간 "내일"']);
+  }
+
+  // Digest ideas drop titles repeated from recent digests or from each other
+  {
+    const { isDuplicateTitle, pickFreshTitles } = await vite.ssrLoadModule('/services/digestHistory.ts');
+    const seen = ['애플, 새 아이폰 공개 임박'];
+    assert.equal(isDuplicateTitle('애플 새 아이폰 공개 임박했다', seen), true);
+    assert.equal(isDuplicateTitle('테슬라 2분기 실적 발표', seen), false);
+
+    const { titles, dropped } = pickFreshTitles(
+      ['애플 새 아이폰 공개 임박했다', '삼성전자 HBM 양산 시작', '삼성전자, HBM 양산 시작', '테슬라 2분기 실적 발표', '엔비디아 신규 GPU 출시'],
+      seen,
+      2,
+    );
+    assert.deepEqual(titles, ['삼성전자 HBM 양산 시작', '테슬라 2분기 실적 발표']);
+    assert.deepEqual(dropped, ['애플 새 아이폰 공개 임박했다', '삼성전자, HBM 양산 시작']);
+  }
+
+  // WordPress site URLs must be https and public unless listed as development hosts
+  {
+    const { UnsafeSiteUrlError, assertSafeSiteUrl, isPrivateAddress, parseDevHosts } = await vite.ssrLoadModule('/services/wordpressService.ts');
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.0.10', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:7f00:1', '::ffff:10.0.0.1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+    for (const address of ['8.8.8.8', '172.32.0.1', '100.128.0.1', '2606:4700::1111', '::ffff:808:808']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+
+    const unsafe = (siteUrl, devHosts = []) => assert.rejects(assertSafeSiteUrl(siteUrl, devHosts), UnsafeSiteUrlError, siteUrl);
+    await unsafe('http://8.8.8.8');
+    await unsafe('https://127.0.0.1');
+    await unsafe('https://169.254.169.254/latest');
+    await unsafe('https://[::1]:8443');
+    await unsafe('https://localhost');
+    await unsafe('not a url');
+    await unsafe('http://localhost:9000', ['localhost:8787']);
+    await assertSafeSiteUrl('https://8.8.8.8');
+    await assertSafeSiteUrl('http://localhost:8787/', parseDevHosts(' localhost:8787 , wp.internal'));
+    await assertSafeSiteUrl('http://wp.internal:8080', parseDevHosts('localhost:8787,wp.internal'));
+  }
+
+  console.log('Unit checks passed');
+} finally {
+  await vite.close();
+}
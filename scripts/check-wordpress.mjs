@@ -0,0 +1,137 @@
+// Publishes a fixture post to the mock WordPress API (fixtures/wordpress/mock-server.mjs)
+// and checks tag resolution, media uploads, the featured image, upload warnings and that
+// redirects from the site are not followed.
+// Usage: npm test (or node scripts/check-wordpress.mjs)
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { createServer as createHttpServer } from 'node:http';
+import { createServer } from 'vite';
+
+const listen = async (server) => {
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  return `http://127.0.0.1:${server.address().port}`;
+};
+
+// Stands in for this deployment, serving the local provider's photos
+const assetRequests = [];
+const assets = createHttpServer((req, res) => {
+  assetRequests.push(req.url);
+  if (req.url.startsWith('/images/ai-chip.jpg') || req.url.startsWith('/images/data-center.jpg')) {
+    res.writeHead(200, { 'Content-Type': 'image/jpeg' });
+    return res.end(Buffer.from([0xff, 0xd8, 0xff, 0xd9]));
+  }
+  res.writeHead(404);
+  res.end();
+});
+const assetBaseUrl = await listen(assets);
+
+// The mock builds its URLs from the port it is given, so pick a free one first
+const probe = createHttpServer();
+const mockPort = new URL(await listen(probe)).port;
+probe.close();
+
+const mock = spawn(process.execPath, ['fixtures/wordpress/mock-server.mjs', mockPort], { stdio: ['ignore', 'pipe', 'inherit'] });
+const siteUrl = `http://localhost:${mockPort}`;
+// The mock is plain http on loopback, which is only allowed for development hosts
+process.env.WORDPRESS_DEV_HOSTS = `localhost:${mockPort}`;
+const requests = [];
+
+const vite = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true },
+});
+
+try {
+  await new Promise((resolve, reject) => {
+    mock.stdout.on('data', chunk => {
+      const text = chunk.toString();
+      requests.push(...text.split('\n').filter(line => /^(GET|POST) /.test(line)));
+      if (text.includes('listening')) resolve();
+    });
+    mock.once('exit', code => reject(new Error(`Mock WordPress server exited with ${code}`)));
+  });
+
+  const { publishToWordPress, WordPressApiError } = await vite.ssrLoadModule('/services/wordpressService.ts');
+  const credentials = { siteUrl, username: 'admin', applicationPassword: 'mock pass' };
+  const figure = (src, alt) => `<figure><img src="${src}" alt="${alt}" /><figcaption>Photo by Brand Studio</figcaption></figure>`;
+  const post = [
+    '<h2>AI 반도체</h2><p>첫 문단입니다.</p>',
+    figure('/images/ai-chip.jpg', 'AI chip &amp; board'),
+    '<p>둘째 문단입니다.</p>',
+    figure('https://example.com/tracker.jpg', 'not an image provider'),
+    figure('/images/missing.jpg', 'missing'),
+    figure('/images/data-center.jpg?w=1200&amp;h=800', 'data center'),
+  ].join('');
+
+  const result = await publishToWordPress(credentials, {
+    title: 'AI 반도체 동향',
+    post,
+    // Existing tag, new tag, and a tag only found through term_exists
+    tags: ['반도체', 'HBM', 'R&D'],
+    status: 'draft',
+    assetBaseUrl,
+  });
+
+  assert.deepEqual(result.tagIds, [1, 100, 2]);
+  assert.deepEqual(result.mediaIds, [101, 102]);
+  assert.equal(result.featuredMediaId, 101);
+  assert.equal(result.id, 103);
+  assert.equal(result.status, 'draft');
+  assert.equal(result.url, `${siteUrl}/?p=103&preview=true`);
+  assert.equal(result.warnings.length, 2);
+  assert.match(result.warnings[0], /https:\/\/example\.com\/tracker\.jpg$/);
+  assert.match(result.warnings[1], /\/images\/missing\.jpg$/);
+
+  // The escaped query string is decoded before downloading
+  assert.deepEqual(assetRequests, ['/images/ai-chip.jpg', '/images/missing.jpg', '/images/data-center.jpg?w=1200&h=800']);
+  // Each upload is the file plus its alt text and caption; failed images upload nothing
+  assert.equal(requests.filter(line => line.startsWith('POST /wp-json/wp/v2/media')).length, 4);
+
+  const listResponse = await fetch(`${siteUrl}/wp-json/wp/v2/posts`, {
+    headers: { Authorization: `Basic ${Buffer.from('admin:mock pass').toString('base64')}` },
+  });
+  const [created] = await listResponse.json();
+  assert.equal(created.featured_media, 101);
+  assert.deepEqual(created.tags, [1, 100, 2]);
+  assert.match(created.content.raw, new RegExp(`src="${siteUrl}/wp-content/uploads/101-ai-chip\\.jpg" class="wp-image-101"`));
+  assert.match(created.content.raw, new RegExp(`src="${siteUrl}/wp-content/uploads/102-data-center\\.jpg" class="wp-image-102"`));
+  assert.match(created.content.raw, /src="https:\/\/example\.com\/tracker\.jpg"/);
+  assert.match(created.content.raw, /src="\/images\/missing\.jpg"/);
+
+  // A rejected password fails the publish instead of turning into warnings
+  await assert.rejects(
+    publishToWordPress({ ...credentials, applicationPassword: 'wrong' }, { title: 't', post, tags: [], status: 'draft', assetBaseUrl }),
+    error => error instanceof WordPressApiError && error.status === 401
+  );
+
+  // A site that redirects is not followed, so the credentials stay with the configured host
+  const redirectTargetHits = [];
+  const redirectTarget = createHttpServer((req, res) => {
+    redirectTargetHits.push(req.url);
+    res.end('[]');
+  });
+  const redirectTargetUrl = await listen(redirectTarget);
+  const redirecting = createHttpServer((req, res) => {
+    res.writeHead(302, { Location: `${redirectTargetUrl}${req.url}` });
+    res.end();
+  });
+  const redirectingUrl = await listen(redirecting);
+  process.env.WORDPRESS_DEV_HOSTS += `,${new URL(redirectingUrl).host}`;
+  try {
+    await assert.rejects(publishToWordPress({ ...credentials, siteUrl: redirectingUrl }, { title: 't', post, tags: ['HBM'], status: 'draft' }));
+    assert.deepEqual(redirectTargetHits, []);
+  } finally {
+    redirecting.close();
+    redirectTarget.close();
+  }
+
+  console.log('WordPress publish check passed');
+} finally {
+  await vite.close();
+  mock.kill();
+  assets.close();
+}
@@ -0,0 +1,169 @@
+import type { StoredDraft } from './draftStore';
+import { ServiceError, isFailureKind } from './errors';
+import type { BlogPostResult, GenerationOptions } from './geminiService';
+import type { ImageProviderId, ImageProviderInfo } from './images';
+import type { DigestLink } from './linkTokens';
+import type { Language } from '../types';
+import type { WordPressCredentials, WordPressPostStatus, WordPressPublishResult } from './wordpressService';
+
+/**
+ * fetch, with a connection that could not be made reported as a network failure
+ */
+async function request(path: string, init?: RequestInit): Promise<Response> {
+  try {
+    return await fetch(path, init);
+  } catch (error) {
+    if (error instanceof TypeError) throw new ServiceError('network', error.message);
+    throw error;
+  }
+}
+
+/**
+ * Rebuilds the server's error: a ServiceError when the route classified the failure
+ */
+function errorFromBody(data: { error?: string; kind?: unknown; detail?: string } | null, fallback: string): Error {
+  if (isFailureKind(data?.kind)) return new ServiceError(data.kind, data.detail);
+  return new Error(data?.error || fallback);
+}
+
+/**
+ * Sends a JSON POST request to one of the serverless routes under /api
+ * and surfaces the server's error message on failure
+ */
+async function postJson<T>(path: string, body: unknown, signal?: AbortSignal, headers?: Record<string, string>): Promise<T> {
+  const response = await request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  return parseResponse<T>(response);
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw errorFromBody(data, `요청 실패: ${response.status} ${response.statusText}`);
+  }
+
+  return data as T;
+}
+
+/**
+ * Generates a blog post on the server (POST /api/generate). With `onProgress` the
+ * response is streamed and the callback sees the partial post as it is written.
+ * Aborting `signal` closes the request, which stops the generation on the server.
+ */
+export async function generateBlogPost(
+  keyword: string,
+  dateRange: string,
+  template: string,
+  options: GenerationOptions = {}
+): Promise<BlogPostResult> {
+  const { onProgress, signal, ...generationOptions } = options;
+  if (!onProgress) {
+    return postJson<BlogPostResult>('/api/generate', { keyword, dateRange, template, ...generationOptions }, signal);
+  }
+
+  const response = await request('/api/generate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ keyword, dateRange, template, ...generationOptions, stream: true }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    return parseResponse<BlogPostResult>(response);
+  }
+
+  // One JSON event per line: progress events, then a single result or error
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read().catch(error => {
+      if (error instanceof TypeError) throw new ServiceError('network', error.message);
+      throw error;
+    });
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines.filter(line => line.trim())) {
+      const event = JSON.parse(line);
+      if (event.type === 'result') return event.result;
+      if (event.type === 'error') throw errorFromBody(event, '알 수 없는 오류가 발생했습니다.');
+      const { type: _type, ...progress } = event;
+      onProgress(progress);
+    }
+    if (done) throw new ServiceError('network', '생성 응답이 중간에 끊겼습니다.');
+  }
+}
+
+/**
+ * Fetches images on the server and injects them into the post (POST /api/images)
+ */
+export function fetchAndInjectImages(
+  post: string,
+  imageKeywords: string[],
+  fallbackKeyword: string,
+  providers?: ImageProviderId[],
+  language?: Language,
+  signal?: AbortSignal
+): Promise<{ post: string; imagesFound: boolean }> {
+  return postJson('/api/images', { post, imageKeywords, fallbackKeyword, providers, language }, signal);
+}
+
+/**
+ * Lists the image providers and whether each is configured on the server (GET /api/images)
+ */
+export async function fetchImageProviders(): Promise<ImageProviderInfo[]> {
+  const data = await parseResponse<{ providers: ImageProviderInfo[] }>(await request('/api/images'));
+  return data.providers;
+}
+
+/**
+ * Checks a signed digest email link and returns what it allows (POST /api/verify-link)
+ */
+export function verifyDigestLink(token: string): Promise<DigestLink> {
+  return postJson<DigestLink>('/api/verify-link', { token });
+}
+
+/**
+ * Loads a draft pre-generated by the daily digest, using the link token from the email (GET /api/drafts)
+ */
+export async function fetchDraft(token: string): Promise<StoredDraft> {
+  return parseResponse<StoredDraft>(await request(`/api/drafts?token=${encodeURIComponent(token)}`));
+}
+
+/**
+ * Rewrites a single <h2> section on the server (POST /api/section)
+ */
+export async function regenerateSection(
+  keyword: string,
+  title: string,
+  post: string,
+  section: string,
+  instruction: string,
+  language?: Language,
+  signal?: AbortSignal
+): Promise<string> {
+  const data = await postJson<{ section: string }>('/api/section', { keyword, title, post, section, instruction, language }, signal);
+  return data.section;
+}
+
+/**
+ * Creates a draft or published post on a WordPress site (POST /api/publish).
+ * `publishKey` is the deployment's PUBLISH_SECRET.
+ */
+export function publishToWordPress(
+  site: WordPressCredentials,
+  result: { title: string; post: string; tags: string[] },
+  status: WordPressPostStatus,
+  publishKey: string
+): Promise<WordPressPublishResult> {
+  return postJson<WordPressPublishResult>('/api/publish', { site, ...result, status }, undefined, {
+    Authorization: `Bearer ${publishKey}`,
+  });
+}
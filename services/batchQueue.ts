@@ -0,0 +1,146 @@
+import { DATE_RANGE_OPTIONS, TEMPLATE_OPTIONS } from '../constants';
+import type { CustomTemplate, DateRange, Language, LengthTarget, Template } from '../types';
+
+/** 'auto' injects images right after generation; 'review' waits for the editor to pick image keywords */
+export type BatchImageMode = 'auto' | 'review';
+
+export interface BatchJob {
+  keyword: string;
+  template: Template;
+  dateRange: DateRange;
+  language: Language;
+  length: LengthTarget;
+  imageMode: BatchImageMode;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'awaitingReview' | 'done' | 'failed';
+
+export interface BatchItem extends BatchJob {
+  id: string;
+  status: BatchItemStatus;
+  /** What a running item is doing, or a non-fatal warning once it finished */
+  stage?: string;
+  error?: string;
+  /** Library id of the generated post */
+  postId?: string;
+  attempts: number;
+}
+
+export interface BatchQueueOptions {
+  /** Maximum number of items processed at the same time */
+  concurrency: number;
+  /**
+   * Processes one item and resolves with the changes to apply, including the
+   * final status. `update` reports progress while it runs; a rejection marks the item failed.
+   */
+  process: (item: BatchItem, update: (changes: Partial<BatchItem>) => void) => Promise<Partial<BatchItem>>;
+  onChange: (items: BatchItem[]) => void;
+}
+
+export interface BatchQueue {
+  add: (jobs: BatchJob[]) => void;
+  /** Puts a failed item back in the queue */
+  retry: (id: string) => void;
+  update: (id: string, changes: Partial<BatchItem>) => void;
+  /** Drops done and failed items; queued, running and not yet reviewed items stay */
+  clearFinished: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getItems: () => BatchItem[];
+}
+
+let nextId = 0;
+
+/**
+ * In-memory job queue that runs at most `concurrency` items at once, in the order they were added
+ */
+export function createBatchQueue(options: BatchQueueOptions): BatchQueue {
+  let items: BatchItem[] = [];
+  let concurrency = Math.max(1, options.concurrency);
+  let running = 0;
+
+  const update = (id: string, changes: Partial<BatchItem>) => {
+    items = items.map(item => (item.id === id ? { ...item, ...changes } : item));
+    options.onChange(items);
+  };
+
+  const pump = () => {
+    while (running < concurrency) {
+      const next = items.find(item => item.status === 'queued');
+      if (!next) return;
+
+      running++;
+      update(next.id, { status: 'running', stage: undefined, error: undefined, attempts: next.attempts + 1 });
+      const started = items.find(item => item.id === next.id)!;
+      options.process(started, changes => update(next.id, changes))
+        .then(changes => update(next.id, { stage: undefined, ...changes }))
+        .catch(error => update(next.id, { status: 'failed', stage: undefined, error: error instanceof Error ? error.message : String(error) }))
+        .finally(() => {
+          running--;
+          pump();
+        });
+    }
+  };
+
+  return {
+    add(jobs) {
+      items = [...items, ...jobs.map(job => ({ ...job, id: `batch-${Date.now()}-${nextId++}`, status: 'queued' as const, attempts: 0 }))];
+      options.onChange(items);
+      pump();
+    },
+    retry(id) {
+      if (items.some(item => item.id === id && item.status === 'failed')) {
+        update(id, { status: 'queued', error: undefined });
+        pump();
+      }
+    },
+    update,
+    clearFinished() {
+      items = items.filter(item => item.status !== 'done' && item.status !== 'failed');
+      options.onChange(items);
+    },
+    setConcurrency(value) {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    getItems: () => items,
+  };
+}
+
+const matchOption = <T extends string>(value: string, choices: { value: T; label: string }[]): T | undefined => {
+  const key = value.trim().toLowerCase();
+  return choices.find(choice => choice.value.toLowerCase() === key || choice.label.toLowerCase() === key)?.value;
+};
+
+/**
+ * Parses one job per line as "keyword | template | date range". Template and
+ * date range are optional and may be given by id or by their label.
+ */
+export function parseBatchInput(
+  text: string,
+  defaults: Omit<BatchJob, 'keyword'>,
+  customTemplates: CustomTemplate[] = [],
+): { jobs: BatchJob[]; errors: string[] } {
+  const templateChoices: { value: Template; label: string }[] = [
+    ...TEMPLATE_OPTIONS,
+    ...customTemplates.map(custom => ({ value: custom.id, label: custom.name })),
+  ];
+  const jobs: BatchJob[] = [];
+  const errors: string[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    const [keyword = '', templateText = '', dateRangeText = ''] = line.split(/\s*[|\t]\s*/).map(part => part.trim());
+    if (!keyword) return;
+
+    const template = templateText ? matchOption(templateText, templateChoices) : defaults.template;
+    const dateRange = dateRangeText ? matchOption(dateRangeText, DATE_RANGE_OPTIONS) : defaults.dateRange;
+    if (!template) {
+      errors.push(`${index + 1}번째 줄: 알 수 없는 템플릿 "${templateText}"`);
+    } else if (!dateRange) {
+      errors.push(`${index + 1}번째 줄: 알 수 없는 기간 "${dateRangeText}"`);
+    } else {
+      jobs.push({ ...defaults, keyword, template, dateRange });
+    }
+  });
+
+  return { jobs, errors };
+}
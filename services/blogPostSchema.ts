@@ -0,0 +1,271 @@
+import { Type, type Schema } from "@google/genai";
+import type { GenerationProgress, GenerationStage } from "../types";
+
+/**
+ * Structured form of a generated post before references are appended.
+ * Every field is parsed out of the model's [SECTION] markers.
+ */
+export interface BlogPostDraft {
+  title: string;
+  post: string;
+  tags: string[];
+  imageKeywords: string[];
+  sources: string[];
+}
+
+export type BlogPostField = keyof BlogPostDraft;
+
+export interface ValidationIssue {
+  field: BlogPostField;
+  message: string;
+}
+
+export interface BlogPostRules {
+  title: { maxLength: number };
+  post: { minTextLength: number };
+  tags: { min: number; max: number };
+  imageKeywords: { min: number; max: number };
+  sources: { min: number; max: number };
+}
+
+/**
+ * Constraints each field must satisfy for a post to be shown to editors
+ */
+export const BLOG_POST_RULES: BlogPostRules = {
+  title: { maxLength: 100 },
+  post: { minTextLength: 300 },
+  tags: { min: 5, max: 10 },
+  imageKeywords: { min: 1, max: 3 },
+  sources: { min: 1, max: 5 },
+};
+
+/**
+ * Returns the default rules with the tag range adjusted to a template's tag count
+ */
+export function rulesWithTagCount(tagCount?: number): BlogPostRules {
+  if (!tagCount) return BLOG_POST_RULES;
+  return { ...BLOG_POST_RULES, tags: { min: Math.min(BLOG_POST_RULES.tags.min, tagCount), max: tagCount } };
+}
+
+const SECTION_MARKERS: Record<BlogPostField, string> = {
+  title: 'TITLE',
+  post: 'POST',
+  tags: 'TAGS',
+  imageKeywords: 'IMAGE_KEYWORDS',
+  sources: 'SOURCES',
+};
+
+/**
+ * Gemini response schema for each field, used when asking the model to repair a draft
+ */
+const fieldSchemas = (rules: BlogPostRules): Record<BlogPostField, Schema> => ({
+  title: {
+    type: Type.STRING,
+    description: '핵심 키워드를 포함한 SEO 친화적인 블로그 글 제목',
+  },
+  post: {
+    type: Type.STRING,
+    description: '<h2>, <p> 등의 태그로 구성된 HTML 본문 (참고 자료 섹션 제외)',
+  },
+  tags: {
+    type: Type.ARRAY,
+    description: '본문과 관련성이 높은 키워드 태그',
+    items: { type: Type.STRING },
+    minItems: String(rules.tags.min),
+    maxItems: String(rules.tags.max),
+  },
+  imageKeywords: {
+    type: Type.ARRAY,
+    description: '이미지 검색에 사용할 영어 키워드',
+    items: { type: Type.STRING },
+    minItems: String(rules.imageKeywords.min),
+    maxItems: String(rules.imageKeywords.max),
+  },
+  sources: {
+    type: Type.ARRAY,
+    description: '"뉴스 기사 제목 - 언론사명" 형식의 참고 뉴스 제목 (검색한 순서 그대로)',
+    items: { type: Type.STRING },
+    minItems: String(rules.sources.min),
+    maxItems: String(rules.sources.max),
+  },
+});
+
+export class BlogPostValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`응답 형식 검증 실패 - ${issues.map(issue => `${issue.field}: ${issue.message}`).join(' / ')}`);
+    this.name = 'BlogPostValidationError';
+    this.issues = issues;
+  }
+}
+
+function splitList(value: string, separator: string | RegExp): string[] {
+  return value.split(separator).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Trims, de-duplicates and caps list fields so only real defects are reported.
+ * Tags are not capped: a requested tag count that the model overshot is a defect
+ * for repair, not something to cut silently.
+ */
+export function normalizeDraft(draft: BlogPostDraft, rules: BlogPostRules = BLOG_POST_RULES): BlogPostDraft {
+  const unique = (items: string[]) => Array.from(new Set(items.map(item => item.trim()).filter(Boolean)));
+
+  return {
+    title: draft.title.replace(/<[^>]*>/g, '').trim(),
+    post: draft.post.trim(),
+    tags: unique(draft.tags.map(tag => tag.replace(/^#/, ''))),
+    imageKeywords: unique(draft.imageKeywords).slice(0, rules.imageKeywords.max),
+    sources: unique(draft.sources.map(source => source.replace(/^(?:[-•*]|\d+[.)])\s+/, ''))).slice(0, rules.sources.max),
+  };
+}
+
+/**
+ * Parses the [TITLE]/[POST]/[TAGS]/[IMAGE_KEYWORDS]/[SOURCES] sections of a raw response.
+ * Missing sections are left empty so the validator can report them.
+ */
+export function parseBlogPostSections(rawText: string, rules: BlogPostRules = BLOG_POST_RULES): BlogPostDraft {
+  const section = (field: BlogPostField): string => {
+    const marker = SECTION_MARKERS[field];
+    const match = rawText.match(new RegExp(`\\[${marker}\\]([\\s\\S]*?)\\[\\/${marker}\\]`));
+    return match ? match[1].trim() : '';
+  };
+
+  return normalizeDraft({
+    title: section('title'),
+    post: section('post'),
+    tags: splitList(section('tags'), ','),
+    imageKeywords: splitList(section('imageKeywords'), ','),
+    sources: splitList(section('sources'), '\n'),
+  }, rules);
+}
+
+const STAGE_BY_FIELD: Record<BlogPostField, GenerationStage> = {
+  title: 'writing',
+  post: 'writing',
+  tags: 'tagging',
+  imageKeywords: 'tagging',
+  sources: 'sourcing',
+};
+
+/**
+ * Reads the title and post out of a response that is still streaming in. A section
+ * whose closing marker has not arrived runs to the end of the text, and a tag cut
+ * off mid-way is dropped. The stage follows the last section the model opened;
+ * before the first one it is still searching.
+ */
+export function parsePartialSections(rawText: string): GenerationProgress {
+  const partial = (field: BlogPostField): string | undefined => {
+    const marker = SECTION_MARKERS[field];
+    const start = rawText.indexOf(`[${marker}]`);
+    if (start === -1) return undefined;
+    const body = rawText.slice(start + marker.length + 2);
+    const end = body.indexOf(`[/${marker}]`);
+    return end === -1 ? body.replace(/\[\/?[A-Z_]*$/, '') : body.slice(0, end);
+  };
+
+  let stage: GenerationStage = 'searching';
+  let lastStart = -1;
+  for (const field of Object.keys(SECTION_MARKERS) as BlogPostField[]) {
+    const start = rawText.lastIndexOf(`[${SECTION_MARKERS[field]}]`);
+    if (start > lastStart) {
+      lastStart = start;
+      stage = STAGE_BY_FIELD[field];
+    }
+  }
+
+  const title = partial('title');
+  const post = partial('post');
+  return {
+    stage,
+    title: title === undefined ? undefined : title.replace(/<[^>]*>?/g, '').trim(),
+    post: post === undefined ? undefined : post.replace(/<[^>]*$/, '').replace(/&[#\w]*$/, '').trim(),
+  };
+}
+
+/**
+ * Checks a draft against the rules and reports every missing or malformed field
+ */
+export function validateBlogPost(draft: BlogPostDraft, rules: BlogPostRules = BLOG_POST_RULES): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const { title, post, tags, imageKeywords, sources } = draft;
+
+  if (!title) {
+    issues.push({ field: 'title', message: '제목이 비어 있습니다.' });
+  } else if (title.length > rules.title.maxLength) {
+    issues.push({ field: 'title', message: `제목이 ${rules.title.maxLength}자를 초과합니다 (현재 ${title.length}자).` });
+  } else if (/\[\/?[A-Z_]+\]/.test(title)) {
+    issues.push({ field: 'title', message: '제목에 섹션 구분자가 포함되어 있습니다.' });
+  }
+
+  const textLength = post.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim().length;
+  if (!post) {
+    issues.push({ field: 'post', message: '본문이 비어 있습니다.' });
+  } else if (!/<(p|h2|h3|ul|ol)\b/i.test(post)) {
+    issues.push({ field: 'post', message: '본문이 HTML 형식이 아닙니다.' });
+  } else if (/\[\/?(TITLE|POST|TAGS|IMAGE_KEYWORDS|SOURCES)\]/.test(post)) {
+    issues.push({ field: 'post', message: '본문에 섹션 구분자가 포함되어 있습니다.' });
+  } else if (/<\/?(html|head|body)\b/i.test(post)) {
+    issues.push({ field: 'post', message: '본문에 <html>, <head>, <body> 태그가 포함되어 있습니다.' });
+  } else if (textLength < rules.post.minTextLength) {
+    issues.push({ field: 'post', message: `본문이 너무 짧습니다 (현재 ${textLength}자).` });
+  }
+
+  if (tags.length < rules.tags.min || tags.length > rules.tags.max) {
+    issues.push({ field: 'tags', message: `태그는 ${rules.tags.min}~${rules.tags.max}개여야 합니다 (현재 ${tags.length}개).` });
+  }
+
+  if (imageKeywords.length < rules.imageKeywords.min) {
+    issues.push({ field: 'imageKeywords', message: '이미지 검색 키워드가 없습니다.' });
+  } else if (imageKeywords.some(kw => !/^[\x20-\x7E]+$/.test(kw))) {
+    issues.push({ field: 'imageKeywords', message: '이미지 검색 키워드는 영어로만 작성되어야 합니다.' });
+  }
+
+  if (sources.length < rules.sources.min) {
+    issues.push({ field: 'sources', message: '참고 뉴스 제목이 없습니다.' });
+  } else if (sources.some(source => !/[-–—]\s*[^-–—]+$/.test(source))) {
+    issues.push({ field: 'sources', message: '참고 뉴스 제목은 "제목 - 언론사명" 형식이어야 합니다.' });
+  }
+
+  return issues;
+}
+
+/**
+ * Builds a JSON response schema containing only the fields that need repair
+ */
+export function buildRepairSchema(fields: BlogPostField[], rules: BlogPostRules = BLOG_POST_RULES): Schema {
+  const schemas = fieldSchemas(rules);
+  const properties: Record<string, Schema> = {};
+  for (const field of fields) {
+    properties[field] = schemas[field];
+  }
+  return {
+    type: Type.OBJECT,
+    properties,
+    required: fields,
+    propertyOrdering: fields,
+  };
+}
+
+/**
+ * Merges a repair response into the draft, touching only the requested fields
+ */
+export function mergeRepair(
+  draft: BlogPostDraft,
+  repair: Partial<BlogPostDraft>,
+  fields: BlogPostField[],
+  rules: BlogPostRules = BLOG_POST_RULES
+): BlogPostDraft {
+  const merged: BlogPostDraft = { ...draft };
+  for (const field of fields) {
+    const value = repair[field];
+    if (value === undefined || value === null) continue;
+    if (field === 'title' || field === 'post') {
+      if (typeof value === 'string') merged[field] = value;
+    } else if (Array.isArray(value)) {
+      merged[field] = value.filter((item): item is string => typeof item === 'string');
+    }
+  }
+  return normalizeDraft(merged, rules);
+}
@@ -0,0 +1,129 @@
+/**
+ * Turns grounding supports into numbered inline citation markers and reports
+ * paragraphs that no support covers. Plain string processing, so it runs on
+ * the server during generation and in the browser on edited posts.
+ */
+
+export interface CitationSupport {
+  /** Text of the supported segment, as returned by the model */
+  text: string;
+  /** 1-based numbers of the reference entries backing the segment */
+  referenceNumbers: number[];
+}
+
+export interface CitationReport {
+  totalParagraphs: number;
+  /** Plain text of each paragraph without a citation marker */
+  unsupportedParagraphs: string[];
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' };
+
+/**
+ * Builds the visible text of an HTML string with whitespace collapsed, and for
+ * each text character the index in the HTML right after it
+ */
+function indexText(html: string): { text: string; htmlEnd: number[] } {
+  let text = '';
+  const htmlEnd: number[] = [];
+  let i = 0;
+
+  while (i < html.length) {
+    const char = html[i];
+    if (char === '<') {
+      const close = html.indexOf('>', i);
+      i = close === -1 ? html.length : close + 1;
+      continue;
+    }
+
+    let value = char;
+    let next = i + 1;
+    if (char === '&') {
+      const entity = html.slice(i).match(/^&(#?\w+);/);
+      if (entity && ENTITIES[entity[1]] !== undefined) {
+        value = ENTITIES[entity[1]];
+        next = i + entity[0].length;
+      }
+    }
+
+    if (/\s/.test(value)) {
+      if (text.length > 0 && !text.endsWith(' ')) {
+        text += ' ';
+        htmlEnd.push(next);
+      }
+    } else {
+      text += value;
+      htmlEnd.push(next);
+    }
+    i = next;
+  }
+
+  return { text, htmlEnd };
+}
+
+/** Segments quote the raw HTML, so they get the same tag stripping and entity decoding as the post */
+const normalizeSegment = (text: string) => indexText(text).text.trim();
+
+export function renderCitationMarker(numbers: number[]): string {
+  return numbers
+    .map(number => `<sup class="citation" style="font-size: 0.75em; line-height: 0;"><a href="#ref-${number}" style="color: #2563eb; text-decoration: none;">[${number}]</a></sup>`)
+    .join('');
+}
+
+/**
+ * Inserts a citation marker after each supported segment. Segments that cannot
+ * be found in the post (e.g. rewritten by an expansion pass) are skipped.
+ */
+export function insertCitations(post: string, supports: CitationSupport[]): string {
+  const { text, htmlEnd } = indexText(post);
+  const markers = new Map<number, Set<number>>();
+
+  for (const support of supports) {
+    const segment = normalizeSegment(support.text);
+    if (!segment || support.referenceNumbers.length === 0) continue;
+    const start = text.indexOf(segment);
+    if (start === -1) continue;
+
+    const position = htmlEnd[start + segment.length - 1];
+    const numbers = markers.get(position) || new Set<number>();
+    support.referenceNumbers.forEach(number => numbers.add(number));
+    markers.set(position, numbers);
+  }
+
+  // Insert from the end so earlier positions stay valid
+  let result = post;
+  for (const position of Array.from(markers.keys()).sort((a, b) => b - a)) {
+    const numbers = Array.from(markers.get(position)!).sort((a, b) => a - b);
+    result = result.slice(0, position) + renderCitationMarker(numbers) + result.slice(position);
+  }
+  return result;
+}
+
+/**
+ * Lists the body paragraphs, outside the references block, that carry no citation marker
+ */
+export function findUnsupportedParagraphs(post: string): CitationReport {
+  const body = post.replace(/<div class="references-section"[\s\S]*$/i, '');
+  const paragraphs = Array.from(body.matchAll(/<p\b[^>]*>([\s\S]*?)<\/p>/gi))
+    .map(match => match[1])
+    .filter(html => indexText(html).text.trim());
+
+  return {
+    totalParagraphs: paragraphs.length,
+    unsupportedParagraphs: paragraphs
+      .filter(html => !/class="citation"/.test(html))
+      .map(html => indexText(html).text.trim()),
+  };
+}
+
+const CITATION_MARKER_PATTERN = /<sup class="citation"[^>]*><a href="#ref-(\d+)"[^>]*>\[\d+\]<\/a><\/sup>/g;
+
+/**
+ * Renumbers citation markers after the source list changed; markers mapped to null are removed
+ */
+export function renumberCitations(post: string, renumber: (number: number) => number | null): string {
+  return post.replace(CITATION_MARKER_PATTERN, (_marker, number) => {
+    const next = renumber(Number(number));
+    return next === null ? '' : renderCitationMarker([next]);
+  });
+}
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import { TEMPLATE_OPTIONS } from '../constants';
+import { isLanguage } from './languages';
+import type { Language, Template } from '../types';
+
+/**
+ * One digest recipient as written in the config file; everything but the
+ * address and topics has a default
+ */
+export interface DigestSubscriberConfig {
+  email: string;
+  name?: string;
+  topics: string[];
+  /** Ideas per topic, 1-10 (default 5) */
+  ideaCount?: number;
+  language?: Language;
+  /** Template preselected by the links in the email; custom templates are referenced by their "custom:" id */
+  template?: Template;
+  /** Top ideas generated into full drafts during the run (default 0, at most 5) */
+  draftCount?: number;
+  /** Also inject images into the drafts */
+  draftImages?: boolean;
+}
+
+export interface DigestConfig {
+  subscribers: DigestSubscriberConfig[];
+}
+
+export type DigestSubscriber = Required<Omit<DigestSubscriberConfig, 'name'>> & { name?: string };
+
+const DEFAULT_IDEA_COUNT = 5;
+const MAX_IDEA_COUNT = 10;
+// Each draft is a full generation inside the cron run, so keep the per-subscriber cost bounded
+const MAX_DRAFT_COUNT = 5;
+
+const isTemplate = (value: string) => TEMPLATE_OPTIONS.some(option => option.value === value) || value.startsWith('custom:');
+
+/**
+ * Checks one subscriber entry and fills in its defaults. Returns an error
+ * message instead when the entry cannot be used.
+ */
+function resolveSubscriber(entry: DigestSubscriberConfig): DigestSubscriber | string {
+  const email = typeof entry?.email === 'string' ? entry.email.trim() : '';
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) return `invalid email "${entry?.email}"`;
+
+  const topics = Array.isArray(entry.topics)
+    ? entry.topics.filter((topic): topic is string => typeof topic === 'string' && topic.trim() !== '').map(topic => topic.trim())
+    : [];
+  if (topics.length === 0) return `${email}: no topics`;
+  if (entry.language !== undefined && !isLanguage(entry.language)) return `${email}: unknown language "${entry.language}"`;
+  if (entry.template !== undefined && !isTemplate(entry.template)) return `${email}: unknown template "${entry.template}"`;
+
+  const ideaCount = Number(entry.ideaCount ?? DEFAULT_IDEA_COUNT);
+  const draftCount = Number(entry.draftCount ?? 0);
+  return {
+    email,
+    name: entry.name?.trim() || undefined,
+    topics,
+    ideaCount: Number.isFinite(ideaCount) ? Math.min(MAX_IDEA_COUNT, Math.max(1, Math.round(ideaCount))) : DEFAULT_IDEA_COUNT,
+    language: entry.language || 'ko',
+    template: entry.template || 'default',
+    draftCount: Number.isFinite(draftCount) ? Math.min(MAX_DRAFT_COUNT, Math.max(0, Math.round(draftCount))) : 0,
+    draftImages: entry.draftImages === true,
+  };
+}
+
+/**
+ * The single subscriber of deployments configured before the digest config
+ * existed: DAILY_TOPIC mailed to GMAIL_USER
+ */
+function legacySubscribers(): DigestSubscriberConfig[] {
+  const email = process.env.GMAIL_USER;
+  if (!email) return [];
+  return [{ email, topics: [process.env.DAILY_TOPIC || 'AI Trends'] }];
+}
+
+/**
+ * Loads the digest subscribers from DIGEST_CONFIG_PATH (default config/digest.json).
+ * Invalid entries are skipped with a warning so one typo does not stop
+ * everyone else's digest. Without a config file, falls back to DAILY_TOPIC and GMAIL_USER.
+ */
+export function getDigestSubscribers(): DigestSubscriber[] {
+  const configPath = process.env.DIGEST_CONFIG_PATH || 'config/digest.json';
+  let entries: DigestSubscriberConfig[];
+  if (fs.existsSync(configPath)) {
+    const parsed: DigestConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+    entries = Array.isArray(parsed.subscribers) ? parsed.subscribers : [];
+  } else {
+    entries = legacySubscribers();
+  }
+
+  const subscribers: DigestSubscriber[] = [];
+  entries.forEach((entry, index) => {
+    const resolved = resolveSubscriber(entry);
+    if (typeof resolved === 'string') {
+      console.warn(`Skipping digest subscriber #${index + 1}: ${resolved}`);
+    } else {
+      subscribers.push(resolved);
+    }
+  });
+  return subscribers;
+}
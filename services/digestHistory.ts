@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { titleSimilarity } from './outlets';
+
+/**
+ * One digest email as sent to one subscriber
+ */
+export interface DigestRecord {
+  id: string;
+  sentAt: number;
+  email: string;
+  subject: string;
+  topics: { topic: string; titles: string[]; draftIds: string[] }[];
+}
+
+export type NewDigestRecord = Omit<DigestRecord, 'id'>;
+
+/**
+ * Persistent log of sent digests. The JSON file store below is the default;
+ * anything else (SQLite, a hosted database) only has to implement these two calls.
+ */
+export interface DigestHistoryStore {
+  record: (entry: NewDigestRecord) => Promise<DigestRecord>;
+  /** Records sent at or after `since`, newest first, optionally for one subscriber */
+  list: (options: { since: number; email?: string }) => Promise<DigestRecord[]>;
+}
+
+// Older records are dropped on write; de-duplication never looks back this far
+const RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Keeps every record in one JSON file, rewritten on each record call. Enough
+ * for one cron run a day; writes from concurrent processes are not merged.
+ */
+export function createJsonHistoryStore(filePath: string): DigestHistoryStore {
+  const read = (): DigestRecord[] => {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      return Array.isArray(parsed.records) ? parsed.records : [];
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') console.warn(`Digest history not read from ${filePath}:`, error.message);
+      return [];
+    }
+  };
+
+  return {
+    async record(entry) {
+      const record: DigestRecord = { ...entry, id: randomUUID() };
+      const cutoff = Date.now() - RETENTION_DAYS * DAY_MS;
+      const records = [...read().filter(item => item.sentAt >= cutoff), record];
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, JSON.stringify({ records }, null, 2));
+      return record;
+    },
+    async list({ since, email }) {
+      return read()
+        .filter(item => item.sentAt >= since && (!email || item.email.toLowerCase() === email.toLowerCase()))
+        .sort((a, b) => b.sentAt - a.sentAt);
+    },
+  };
+}
+
+let activeStore: DigestHistoryStore | null = null;
+
+/**
+ * Returns the process-wide history store, a JSON file at DIGEST_HISTORY_PATH (default data/digest-history.json)
+ */
+export function getDigestHistoryStore(): DigestHistoryStore {
+  if (!activeStore) {
+    activeStore = createJsonHistoryStore(process.env.DIGEST_HISTORY_PATH || 'data/digest-history.json');
+  }
+  return activeStore;
+}
+
+/**
+ * Overrides the process-wide store, e.g. with a database-backed implementation
+ */
+export function setDigestHistoryStore(store: DigestHistoryStore | null): void {
+  activeStore = store;
+}
+
+// Headlines about the same story usually share most of their wording even when reworded
+export const DUPLICATE_SIMILARITY = 0.5;
+
+export function isDuplicateTitle(title: string, seen: string[], threshold: number = DUPLICATE_SIMILARITY): boolean {
+  return seen.some(other => titleSimilarity(title, other) >= threshold);
+}
+
+/**
+ * Picks up to `count` candidates that are not near-duplicates of a title in
+ * `seen` or of each other, keeping the candidates' order
+ */
+export function pickFreshTitles(candidates: string[], seen: string[], count: number): { titles: string[]; dropped: string[] } {
+  const titles: string[] = [];
+  const dropped: string[] = [];
+  for (const candidate of candidates) {
+    if (titles.length >= count) break;
+    if (isDuplicateTitle(candidate, [...seen, ...titles])) {
+      dropped.push(candidate);
+    } else {
+      titles.push(candidate);
+    }
+  }
+  return { titles, dropped };
+}
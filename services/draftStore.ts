@@ -0,0 +1,143 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { BlogResult, DateRange, Template } from '../types';
+
+/**
+ * A post generated ahead of time by the daily digest, kept on the server
+ * until a writer opens it from the email
+ */
+export interface StoredDraft extends BlogResult {
+  id: string;
+  keyword: string;
+  dateRange: DateRange;
+  template: Template;
+  imageKeywords: string[];
+  createdAt: number;
+}
+
+export type NewStoredDraft = Omit<StoredDraft, 'id' | 'createdAt'>;
+
+/**
+ * Where digest drafts live between the cron run and the writer opening the link.
+ * The cron job and /api/drafts must share it, so serverless deployments need a
+ * hosted store such as the Redis one below.
+ */
+export interface DraftStore {
+  save: (entry: NewStoredDraft) => Promise<StoredDraft>;
+  /** Undefined for unknown, expired or malformed ids */
+  get: (id: string) => Promise<StoredDraft | undefined>;
+}
+
+// Ids are generated here, so anything else in a request is rejected before it reaches the store
+const DRAFT_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+const newDraft = (entry: NewStoredDraft): StoredDraft => ({ ...entry, id: randomUUID(), createdAt: Date.now() });
+
+/**
+ * Writes each draft as one JSON file in `directory`; for local runs and single servers
+ */
+export function createFileDraftStore(directory: string): DraftStore {
+  return {
+    async save(entry) {
+      const draft = newDraft(entry);
+      fs.mkdirSync(directory, { recursive: true });
+      fs.writeFileSync(path.join(directory, `${draft.id}.json`), JSON.stringify(draft));
+      return draft;
+    },
+    async get(id) {
+      if (!DRAFT_ID_PATTERN.test(id)) return undefined;
+      try {
+        return JSON.parse(fs.readFileSync(path.join(directory, `${id}.json`), 'utf-8'));
+      } catch {
+        return undefined;
+      }
+    },
+  };
+}
+
+export interface RedisDraftStoreConfig {
+  /** REST endpoint of an Upstash (or Vercel KV) Redis database */
+  url: string;
+  token: string;
+  /** Drafts are deleted after this long */
+  ttlSeconds: number;
+}
+
+/**
+ * Keeps drafts in Redis through the Upstash REST API, which needs no connection
+ * and works from any serverless function
+ */
+export function createRedisDraftStore({ url, token, ttlSeconds }: RedisDraftStoreConfig): DraftStore {
+  const command = async (args: (string | number)[]): Promise<unknown> => {
+    const response = await fetch(url.replace(/\/+$/, ''), {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || data?.error) {
+      throw new Error(`Draft store error: ${data?.error || `${response.status} ${response.statusText}`}`);
+    }
+    return data?.result;
+  };
+  const key = (id: string) => `draft:${id}`;
+
+  return {
+    async save(entry) {
+      const draft = newDraft(entry);
+      await command(['SET', key(draft.id), JSON.stringify(draft), 'EX', ttlSeconds]);
+      return draft;
+    },
+    async get(id) {
+      if (!DRAFT_ID_PATTERN.test(id)) return undefined;
+      const value = await command(['GET', key(id)]);
+      return typeof value === 'string' ? JSON.parse(value) : undefined;
+    },
+  };
+}
+
+// Well past the digest links' lifetime (DIGEST_LINK_TTL_HOURS, default 72)
+const DEFAULT_DRAFT_TTL_DAYS = 14;
+
+/**
+ * Builds the store selected by DRAFT_STORE ('file' | 'redis'). Redis reads
+ * KV_REST_API_URL and KV_REST_API_TOKEN (or the UPSTASH_REDIS_REST_* names).
+ */
+function createDraftStoreFromEnv(): DraftStore {
+  const env = process.env;
+  switch (env.DRAFT_STORE || 'file') {
+    case 'file':
+      return createFileDraftStore(env.DRAFT_STORE_DIR || 'data/drafts');
+    case 'redis': {
+      const url = env.KV_REST_API_URL || env.UPSTASH_REDIS_REST_URL;
+      const token = env.KV_REST_API_TOKEN || env.UPSTASH_REDIS_REST_TOKEN;
+      if (!url || !token) {
+        throw new Error('KV_REST_API_URL and KV_REST_API_TOKEN environment variables must be set');
+      }
+      const ttlDays = Number(env.DRAFT_TTL_DAYS) || DEFAULT_DRAFT_TTL_DAYS;
+      return createRedisDraftStore({ url, token, ttlSeconds: Math.round(ttlDays * 24 * 60 * 60) });
+    }
+    default:
+      throw new Error(`Unknown DRAFT_STORE: ${env.DRAFT_STORE}`);
+  }
+}
+
+let activeStore: DraftStore | null = null;
+
+/**
+ * Returns the process-wide draft store, creating it from the environment on first use
+ */
+export function getDraftStore(): DraftStore {
+  if (!activeStore) {
+    activeStore = createDraftStoreFromEnv();
+  }
+  return activeStore;
+}
+
+/**
+ * Overrides the process-wide store, e.g. with another hosted backend
+ */
+export function setDraftStore(store: DraftStore | null): void {
+  activeStore = store;
+}
@@ -0,0 +1,151 @@
+import { isNetworkError } from './retry';
+
+/**
+ * Why a generation or image search failed, as far as the reader can act on it
+ */
+export type FailureKind =
+  | 'missingKey'
+  | 'quotaExceeded'
+  | 'safetyBlocked'
+  | 'emptyResponse'
+  | 'noGrounding'
+  | 'imageAuth'
+  | 'imageRateLimit'
+  | 'network'
+  | 'unknown';
+
+/** What the app offers next to a failure */
+export type RecoveryAction = 'retry' | 'widenDateRange' | 'editKeyword' | 'continueWithoutImages';
+
+interface FailureInfo {
+  title: string;
+  message: string;
+  actions: RecoveryAction[];
+  /** Status the API routes answer with */
+  status: number;
+}
+
+export const FAILURES: Record<FailureKind, FailureInfo> = {
+  missingKey: {
+    title: 'API 키 설정 필요',
+    message: 'AI 서비스의 API 키가 없거나 올바르지 않습니다. 서버의 GEMINI_API_KEY(로컬 모델은 LLM_API_KEY) 설정을 확인해주세요.',
+    actions: [],
+    status: 500,
+  },
+  quotaExceeded: {
+    title: '사용량 한도 초과',
+    message: 'AI 서비스의 요청 한도를 초과했습니다. 잠시 후 다시 시도해주세요.',
+    actions: ['retry'],
+    status: 429,
+  },
+  safetyBlocked: {
+    title: '안전 정책으로 차단됨',
+    message: 'AI 서비스의 안전 정책에 따라 이 주제의 글을 생성하지 않았습니다. 키워드를 바꿔 다시 시도해주세요.',
+    actions: ['editKeyword'],
+    status: 422,
+  },
+  emptyResponse: {
+    title: '응답을 해석하지 못함',
+    message: 'AI가 비어 있거나 형식에 맞지 않는 응답을 보냈습니다. 다시 시도하면 대부분 해결됩니다.',
+    actions: ['retry'],
+    status: 502,
+  },
+  noGrounding: {
+    title: '관련 뉴스 없음',
+    message: '선택한 기간에 이 키워드와 관련된 뉴스를 찾지 못했습니다. 기간을 넓히거나 다른 키워드로 시도해주세요.',
+    actions: ['widenDateRange', 'editKeyword'],
+    status: 422,
+  },
+  imageAuth: {
+    title: '이미지 서비스 인증 실패',
+    message: '이미지 서비스가 API 키를 거부했습니다. PEXELS_API_KEY 또는 UNSPLASH_ACCESS_KEY를 확인하거나 이미지 없이 계속하세요.',
+    actions: ['continueWithoutImages'],
+    status: 502,
+  },
+  imageRateLimit: {
+    title: '이미지 검색 한도 초과',
+    message: '이미지 서비스의 요청 한도를 초과했습니다. 잠시 후 다시 시도하거나 이미지 없이 계속하세요.',
+    actions: ['retry', 'continueWithoutImages'],
+    status: 429,
+  },
+  network: {
+    title: '연결 실패',
+    message: '서버나 외부 서비스에 연결하지 못했거나 응답이 너무 늦습니다. 네트워크 상태를 확인하고 다시 시도해주세요.',
+    actions: ['retry'],
+    status: 504,
+  },
+  unknown: {
+    title: '오류 발생',
+    message: '알 수 없는 오류가 발생했습니다.',
+    actions: ['retry'],
+    status: 500,
+  },
+};
+
+export const isFailureKind = (value: unknown): value is FailureKind =>
+  typeof value === 'string' && value in FAILURES;
+
+/**
+ * A classified failure. The message is meant for the reader; `detail` keeps the
+ * original error text for logs and the "details" line in the UI.
+ */
+export class ServiceError extends Error {
+  kind: FailureKind;
+  detail?: string;
+
+  constructor(kind: FailureKind, detail?: string) {
+    super(FAILURES[kind].message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.detail = detail;
+  }
+}
+
+// finishReason values (Gemini, and OpenAI's content_filter) meaning the output was withheld
+const BLOCKED_FINISH_REASONS = new Set(['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'content_filter']);
+
+export const isBlockedFinishReason = (reason?: string): boolean => !!reason && BLOCKED_FINISH_REASONS.has(reason);
+
+/**
+ * Maps an LLM-side error to a failure kind: key and quota errors by HTTP status or
+ * Gemini's error text, timeouts and dropped connections as network failures, and
+ * a post that still failed validation after repair as an unparseable response
+ */
+export function classifyError(error: unknown): ServiceError {
+  if (error instanceof ServiceError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+  const status = (error as { status?: unknown })?.status;
+
+  if (status === 401 || status === 403 || /API_KEY environment variable not set|API key not valid|PERMISSION_DENIED/i.test(message)) {
+    return new ServiceError('missingKey', message);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new ServiceError('quotaExceeded', message);
+  }
+  if (name === 'TimeoutError' || isNetworkError(error)) {
+    return new ServiceError('network', message);
+  }
+  if (name === 'BlogPostValidationError' || error instanceof SyntaxError) {
+    return new ServiceError('emptyResponse', message);
+  }
+  return new ServiceError('unknown', message);
+}
+
+/**
+ * Classifies an image provider error; an image failure never means the LLM key is missing
+ */
+export function classifyImageError(error: unknown): ServiceError {
+  if (error instanceof ServiceError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { status?: unknown })?.status;
+
+  if (status === 401 || status === 403) return new ServiceError('imageAuth', message);
+  if (status === 429) return new ServiceError('imageRateLimit', message);
+  if ((error instanceof Error && error.name === 'TimeoutError') || isNetworkError(error)) {
+    return new ServiceError('network', message);
+  }
+  return new ServiceError('unknown', message);
+}
@@ -0,0 +1,433 @@
+import { escapeHtml } from './html';
+import { getLanguageConfig } from './languages';
+import { DEFAULT_CITATION_STYLE, formatSource, renderSourcesHtml } from './sources';
+import type { CitationStyle, Language, Source } from '../types';
+
+/**
+ * Browser-side exporters that turn the generated post HTML into other publishing formats
+ */
+
+export type ExportFormat = 'markdown' | 'text' | 'gutenberg' | 'html';
+
+export interface ExportInput {
+  title: string;
+  post: string;
+  tags: string[];
+  language?: Language;
+  sources?: Source[];
+  citationStyle?: CitationStyle;
+}
+
+export interface ExportFormatInfo {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { format: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'text', label: '일반 텍스트', extension: 'txt', mimeType: 'text/plain' },
+  { format: 'gutenberg', label: 'WordPress 블록', extension: 'html', mimeType: 'text/html' },
+  { format: 'html', label: '전체 HTML 파일', extension: 'html', mimeType: 'text/html' },
+];
+
+const parseHtml = (html: string): HTMLDivElement => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+};
+
+const isElement = (node: Node): node is Element => node.nodeType === Node.ELEMENT_NODE;
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ');
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_])/g, '\\$1');
+
+type TextMode = 'markdown' | 'text';
+
+/**
+ * Renders inline content (text, links, emphasis) of a block element
+ */
+function renderInline(node: Node, mode: TextMode): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = collapseWhitespace(node.textContent || '');
+    return mode === 'markdown' ? escapeMarkdown(text) : text;
+  }
+  if (!isElement(node)) return '';
+
+  const children = () => Array.from(node.childNodes).map(child => renderInline(child, mode)).join('');
+
+  switch (node.tagName) {
+    case 'BR':
+      return mode === 'markdown' ? '  \n' : '\n';
+    case 'STRONG':
+    case 'B':
+      return mode === 'markdown' ? `**${children().trim()}**` : children();
+    case 'EM':
+    case 'I':
+      return mode === 'markdown' ? `*${children().trim()}*` : children();
+    case 'CODE':
+      return mode === 'markdown' ? `\`${node.textContent || ''}\`` : node.textContent || '';
+    case 'A': {
+      const href = node.getAttribute('href') || '';
+      const text = children().trim();
+      // In-page anchors such as citation markers mean nothing in plain text
+      if (!href || (mode === 'text' && href.startsWith('#'))) return text;
+      return mode === 'markdown' ? `[${text}](${href})` : `${text} (${href})`;
+    }
+    case 'IMG':
+      return mode === 'markdown' ? `![${node.getAttribute('alt') || ''}](${node.getAttribute('src') || ''})` : '';
+    default:
+      return children();
+  }
+}
+
+function renderList(list: Element, mode: TextMode, depth: number): string {
+  const ordered = list.tagName === 'OL';
+  const indent = '   '.repeat(depth);
+  return Array.from(list.children)
+    .filter(item => item.tagName === 'LI')
+    .map((item, index) => {
+      const marker = ordered ? `${index + 1}.` : '-';
+      const inlineNodes = Array.from(item.childNodes).filter(child => !(isElement(child) && (child.tagName === 'UL' || child.tagName === 'OL')));
+      const nested = Array.from(item.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL');
+      const text = inlineNodes.map(child => renderInline(child, mode)).join('').trim();
+      return [`${indent}${marker} ${text}`, ...nested.map(child => renderList(child, mode, depth + 1))].join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Renders block-level children as Markdown or plain text, separated by blank lines
+ */
+function renderBlocks(container: Element, mode: TextMode): string {
+  const blocks: string[] = [];
+  let inlineBuffer = '';
+
+  const flushInline = () => {
+    if (inlineBuffer.trim()) blocks.push(inlineBuffer.trim());
+    inlineBuffer = '';
+  };
+
+  for (const node of Array.from(container.childNodes)) {
+    if (!isElement(node)) {
+      inlineBuffer += renderInline(node, mode);
+      continue;
+    }
+
+    const tag = node.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      flushInline();
+      const text = Array.from(node.childNodes).map(child => renderInline(child, mode)).join('').trim();
+      blocks.push(mode === 'markdown' ? `${'#'.repeat(Number(tag[1]))} ${text}` : text);
+    } else if (tag === 'P') {
+      flushInline();
+      const text = Array.from(node.childNodes).map(child => renderInline(child, mode)).join('').trim();
+      if (text) blocks.push(text);
+    } else if (tag === 'UL' || tag === 'OL') {
+      flushInline();
+      blocks.push(renderList(node, mode, 0));
+    } else if (tag === 'BLOCKQUOTE') {
+      flushInline();
+      const inner = renderBlocks(node, mode);
+      blocks.push(mode === 'markdown' ? inner.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n') : inner);
+    } else if (tag === 'FIGURE') {
+      flushInline();
+      const img = node.querySelector('img');
+      const caption = node.querySelector('figcaption');
+      const captionText = caption ? Array.from(caption.childNodes).map(child => renderInline(child, mode)).join('').trim() : '';
+      if (mode === 'markdown' && img) {
+        blocks.push(`![${img.getAttribute('alt') || ''}](${img.getAttribute('src') || ''})${captionText ? `\n*${captionText}*` : ''}`);
+      } else if (mode === 'text' && captionText) {
+        blocks.push(`[이미지] ${captionText}`);
+      }
+    } else if (tag === 'HR') {
+      flushInline();
+      blocks.push(mode === 'markdown' ? '---' : '');
+    } else if (tag === 'DIV' || tag === 'SECTION' || tag === 'ARTICLE') {
+      flushInline();
+      const inner = renderBlocks(node, mode);
+      if (inner) blocks.push(inner);
+    } else {
+      inlineBuffer += renderInline(node, mode);
+    }
+  }
+  flushInline();
+
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Renders the source list as a Markdown or plain-text section, numbered to match the citation markers
+ */
+function renderSourcesSection({ sources = [], citationStyle = DEFAULT_CITATION_STYLE, language = 'ko' }: ExportInput, mode: TextMode): string {
+  if (sources.length === 0) return '';
+  const heading = getLanguageConfig(language).referencesHeading;
+  const items = sources.map((source, index) => {
+    // Markdown has no heading-free anchors, so the citation markers' #ref-n targets are inline HTML
+    const entry = `${mode === 'markdown' ? `<a id="ref-${index + 1}"></a>` : ''}${formatSource(source, citationStyle, language, mode)}`;
+    if (citationStyle === 'numbered') return mode === 'markdown' ? `${index + 1}. ${entry}` : `[${index + 1}] ${entry}`;
+    return `- ${entry}`;
+  });
+  return `\n\n${mode === 'markdown' ? `## ${heading}` : heading}\n\n${items.join('\n')}`;
+}
+
+export function toMarkdown(input: ExportInput): string {
+  const { title, post, tags } = input;
+  const frontMatter = [
+    '---',
+    `title: "${title.replace(/"/g, '\\"')}"`,
+    `date: ${new Date().toISOString().slice(0, 10)}`,
+    ...(tags.length > 0 ? ['tags:', ...tags.map(tag => `  - "${tag.replace(/"/g, '\\"')}"`)] : []),
+    '---',
+  ].join('\n');
+
+  return `${frontMatter}\n\n# ${escapeMarkdown(title)}\n\n${renderBlocks(parseHtml(post), 'markdown')}${renderSourcesSection(input, 'markdown')}\n`;
+}
+
+export function toPlainText(input: ExportInput): string {
+  const { title, post, tags } = input;
+  const tagLine = tags.length > 0 ? `\n\n${tags.map(tag => `#${tag}`).join(' ')}` : '';
+  return `${title}\n\n${renderBlocks(parseHtml(post), 'text')}${renderSourcesSection(input, 'text')}${tagLine}\n`;
+}
+
+const wrapBlock = (name: string, html: string, attributes?: Record<string, unknown>) =>
+  `<!-- wp:${name}${attributes ? ` ${JSON.stringify(attributes)}` : ''} -->\n${html}\n<!-- /wp:${name} -->`;
+
+function gutenbergList(list: Element): string {
+  const ordered = list.tagName === 'OL';
+  const items = Array.from(list.children)
+    .filter(item => item.tagName === 'LI')
+    .map(item => {
+      const nested = Array.from(item.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL');
+      nested.forEach(child => child.remove());
+      const nestedHtml = nested.map(child => gutenbergList(child)).join('');
+      return wrapBlock('list-item', `<li>${item.innerHTML.trim()}${nestedHtml}</li>`);
+    })
+    .join('\n');
+  const tag = ordered ? 'ol' : 'ul';
+  return wrapBlock('list', `<${tag} class="wp-block-list">${items}</${tag}>`, ordered ? { ordered: true } : undefined);
+}
+
+function gutenbergBlocks(container: Element): string[] {
+  const blocks: string[] = [];
+
+  for (const node of Array.from(container.childNodes)) {
+    if (!isElement(node)) {
+      const text = collapseWhitespace(node.textContent || '').trim();
+      if (text) blocks.push(wrapBlock('paragraph', `<p>${escapeHtml(text)}</p>`));
+      continue;
+    }
+
+    const tag = node.tagName;
+    if (/^H[1-6]$/.test(tag)) {
+      const level = Number(tag[1]);
+      blocks.push(wrapBlock('heading', `<h${level} class="wp-block-heading">${node.innerHTML.trim()}</h${level}>`, level === 2 ? undefined : { level }));
+    } else if (tag === 'P') {
+      if (node.innerHTML.trim()) blocks.push(wrapBlock('paragraph', `<p>${node.innerHTML.trim()}</p>`));
+    } else if (tag === 'UL' || tag === 'OL') {
+      blocks.push(gutenbergList(node.cloneNode(true) as Element));
+    } else if (tag === 'BLOCKQUOTE') {
+      const inner = node.querySelector('p') ? gutenbergBlocks(node).join('\n') : wrapBlock('paragraph', `<p>${node.innerHTML.trim()}</p>`);
+      blocks.push(wrapBlock('quote', `<blockquote class="wp-block-quote">${inner}</blockquote>`));
+    } else if (tag === 'FIGURE' && node.querySelector('img')) {
+      const img = node.querySelector('img')!;
+      const caption = node.querySelector('figcaption');
+      const captionHtml = caption ? `<figcaption class="wp-element-caption">${caption.innerHTML.trim()}</figcaption>` : '';
+      blocks.push(wrapBlock(
+        'image',
+        `<figure class="wp-block-image size-large"><img src="${escapeHtml(img.getAttribute('src') || '')}" alt="${escapeHtml(img.getAttribute('alt') || '')}"/>${captionHtml}</figure>`,
+        { sizeSlug: 'large' }
+      ));
+    } else if (tag === 'DIV' || tag === 'SECTION') {
+      blocks.push(...gutenbergBlocks(node));
+    } else if (tag === 'HR') {
+      blocks.push(wrapBlock('separator', '<hr class="wp-block-separator has-alpha-channel-opacity"/>'));
+    } else {
+      blocks.push(wrapBlock('html', node.outerHTML));
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Converts the post into WordPress Gutenberg block markup. The title is not
+ * included because WordPress stores it separately.
+ */
+export function toGutenberg({ post, sources = [], citationStyle = DEFAULT_CITATION_STYLE, language = 'ko' }: ExportInput): string {
+  const blocks = gutenbergBlocks(parseHtml(post));
+  if (sources.length > 0) {
+    blocks.push(wrapBlock('heading', `<h2 class="wp-block-heading">${escapeHtml(getLanguageConfig(language).referencesHeading)}</h2>`));
+    const items = sources.map((source, index) => {
+      const prefix = citationStyle === 'numbered' ? `[${index + 1}] ` : '';
+      return wrapBlock('list-item', `<li id="ref-${index + 1}">${prefix}${formatSource(source, citationStyle, language, 'html')}</li>`);
+    });
+    blocks.push(wrapBlock('list', `<ul class="wp-block-list">${items.join('\n')}</ul>`));
+  }
+  return blocks.join('\n\n');
+}
+
+const renderPostContent = ({ title, post, language = 'ko', sources = [], citationStyle }: ExportInput) => `<div class="post-content">
+                  <h1>${title}</h1>
+                  ${post}${renderSourcesHtml(sources, citationStyle, language)}
+              </div>`;
+
+/**
+ * Wraps rendered post content in a standalone HTML document with embedded styles
+ */
+function wrapDocument(title: string, content: string, language: Language): string {
+  return `
+      <!DOCTYPE html>
+      <html lang="${language}">
+      <head>
+          <meta charset="UTF-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${title}</title>
+          <style>
+              body {
+                  font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+                  line-height: 1.7;
+                  color: #333;
+                  background-color: #ffffff;
+                  margin: 0;
+                  padding: 2rem;
+              }
+              .container {
+                  max-width: 800px;
+                  margin: auto;
+                  background-color: #f9fafb;
+                  border-radius: 8px;
+                  padding: 2.5rem;
+                  border: 1px solid #e5e7eb;
+              }
+              h1, h2, h3 {
+                  color: #111827;
+              }
+              h1 {
+                  font-size: 2.25rem;
+                  margin-bottom: 1em;
+                  line-height: 1.2;
+              }
+              h2, h3 {
+                  border-bottom: 2px solid #e5e7eb;
+                  padding-bottom: 0.3em;
+                  margin-top: 1.5em;
+              }
+              h2 { font-size: 1.75rem; }
+              h3 { font-size: 1.5rem; }
+              p {
+                  margin-bottom: 1.2em;
+              }
+              strong {
+                  color: #000;
+              }
+              ul, ol {
+                  padding-left: 20px;
+                  margin-bottom: 1em;
+              }
+              li {
+                  margin-bottom: 0.5em;
+              }
+              a {
+                  color: #06b6d4;
+                  text-decoration: none;
+              }
+              a:hover {
+                  text-decoration: underline;
+              }
+              blockquote {
+                  border-left: 4px solid #06b6d4;
+                  padding-left: 1rem;
+                  margin: 1.5em 0;
+                  color: #6b7280;
+                  font-style: italic;
+              }
+              figure {
+                  margin: 2em 0;
+                  text-align: center;
+              }
+              figure img {
+                  max-width: 100%;
+                  height: auto;
+                  border-radius: 8px;
+              }
+              figure figcaption {
+                  font-size: 0.8em;
+                  color: #888;
+                  margin-top: 0.5em;
+              }
+              .sources-section {
+                  margin-top: 3rem;
+                  padding-top: 1.5rem;
+                  border-top: 1px solid #e5e7eb;
+              }
+          </style>
+      </head>
+      <body>
+          <div class="container">
+              ${content}
+          </div>
+      </body>
+      </html>
+    `;
+}
+
+/**
+ * Wraps the post in a standalone HTML document with embedded styles
+ */
+export function toStandaloneHtml(input: ExportInput): string {
+  return wrapDocument(input.title, renderPostContent(input), input.language || 'ko');
+}
+
+export function exportPost(format: ExportFormat, input: ExportInput): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(input);
+    case 'text':
+      return toPlainText(input);
+    case 'gutenberg':
+      return toGutenberg(input);
+    case 'html':
+    default:
+      return toStandaloneHtml(input);
+  }
+}
+
+/**
+ * Exports several posts into one file: a single HTML document, or the
+ * per-post exports one after another with a separator between them
+ */
+export function exportPosts(format: ExportFormat, inputs: ExportInput[]): string {
+  switch (format) {
+    case 'html':
+      return wrapDocument(`${inputs.length}개 글`, inputs.map(renderPostContent).join('\n<hr>\n'), inputs[0]?.language || 'ko');
+    case 'text':
+      return inputs.map(input => toPlainText(input)).join(`\n${'='.repeat(40)}\n\n`);
+    default:
+      return inputs.map(input => exportPost(format, input)).join('\n\n<!-- ======================================== -->\n\n');
+  }
+}
+
+/**
+ * Builds a file name from the post title, keeping Korean characters
+ */
+export function exportFileName(title: string, format: ExportFormat): string {
+  const info = EXPORT_FORMATS.find(item => item.format === format)!;
+  const base = title.replace(/[\\/:*?"<>|#%&{}$!'@+`=]/g, '').trim().replace(/\s+/g, '-').slice(0, 60) || 'post';
+  const suffix = format === 'gutenberg' ? '-wordpress' : '';
+  return `${base}${suffix}.${info.extension}`;
+}
+
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
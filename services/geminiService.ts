@@ -1,166 +1,83 @@
-import { GoogleGenAI } from "@google/genai";
-
-const API_KEY = process.env.API_KEY;
-const PEXELS_API_KEY = process.env.PEXELS_API_KEY;
-
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable not set");
+import {
+  BlogPostValidationError,
+  buildRepairSchema,
+  mergeRepair,
+  parseBlogPostSections,
+  parsePartialSections,
+  rulesWithTagCount,
+  validateBlogPost,
+  type BlogPostDraft,
+  type BlogPostField,
+  type BlogPostRules,
+  type ValidationIssue,
+} from "./blogPostSchema";
+import { insertCitations, type CitationSupport } from "./citations";
+import { ServiceError, classifyError, classifyImageError, isBlockedFinishReason } from "./errors";
+import { escapeHtml } from "./html";
+import { resolveImageProviders, type ImageProvider, type ImageProviderId, type Photo } from "./images";
+import { getLanguageConfig, scaleLengthTarget } from "./languages";
+import { getLlmProvider } from "./llm";
+import { findOutletByDomain, getOutletRegistry, matchSources, type SourceMatch } from "./outlets";
+import { DEFAULT_LENGTH_TARGET, measurePostLength, splitByHeading, verifyPostLength, type LengthReport } from "./postLength";
+import type { CustomTemplate, GenerationProgress, Language, LengthTarget, Source } from "../types";
+
+export interface GenerationOptions {
+  /** Definition of a user-defined template, required when template is a custom:* id */
+  customTemplate?: CustomTemplate;
+  /** Output language of the post (default Korean) */
+  language?: Language;
+  /** Target body length; defaults to the custom template's length, then 3,000-4,000 characters */
+  length?: LengthTarget;
+  /** Streams the response; called with the partial title and post as they arrive and on each later stage */
+  onProgress?: (progress: GenerationProgress) => void;
+  /** Cancels the generation, including repair and expansion calls */
+  signal?: AbortSignal;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
+/**
+ * A generated post. Length and citation reports are not part of it: the app checks
+ * the current, possibly edited post with verifyPostLength and findUnsupportedParagraphs.
+ */
 export interface BlogPostResult {
   title: string;
   post: string;
   tags: string[];
   imageKeywords?: string[];
+  /** Matched news sources in citation-number order; rendered separately from post */
+  sources: Source[];
+  language: Language;
+  /** Target the body length is checked against */
+  lengthTarget: LengthTarget;
 }
 
-interface PexelsPhoto {
-  id: number;
-  width: number;
-  height: number;
-  url: string;
-  photographer: string;
-  photographer_url: string;
-  photographer_id: number;
-  avg_color: string;
-  src: {
-    original: string;
-    large2x: string;
-    large: string;
-    medium: string;
-    small: string;
-    portrait: string;
-    landscape: string;
-    tiny: string;
-  };
-  alt: string;
-}
-
-interface PexelsResponse {
-  total_results: number;
-  page: number;
-  per_page: number;
-  photos: PexelsPhoto[];
-  next_page?: string;
-}
-
-/**
- * Validates and checks if Pexels API Key is available
- */
-function isPexelsConfigured(): boolean {
-  return !!PEXELS_API_KEY;
-}
-
-/**
- * Fetches images from Pexels API based on a query
- */
-async function fetchImagesFromPexels(query: string, count: number = 3): Promise<PexelsPhoto[]> {
-  if (!isPexelsConfigured()) {
-    console.warn("PEXELS_API_KEY is not set. Skipping image fetch.");
-    return [];
-  }
-
-  try {
-    const response = await fetch(`https://api.pexels.com/v1/search?query=${encodeURIComponent(query)}&per_page=${count}&locale=ko-KR`, {
-      headers: {
-        Authorization: PEXELS_API_KEY!,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`Pexels API Error: ${response.status} ${response.statusText}`);
-    }
-
-    const data: PexelsResponse = await response.json();
-    return data.photos || [];
-  } catch (error) {
-    console.error("Failed to fetch images from Pexels:", error);
-    return [];
-  }
-}
-
-/**
- * Stage 2: Extract title from the raw AI response content
- * Tries multiple strategies to find a suitable title
- */
-function extractTitleFromContent(rawText: string, post: string): string {
-  // Try to find H1 tag in the content
-  const h1Match = post.match(/<h1[^>]*>(.*?)<\/h1>/i);
-  if (h1Match && h1Match[1].trim()) {
-    return h1Match[1].trim().replace(/<[^>]*>/g, ''); // Remove any HTML tags
-  }
-
-  // Try to find the first H2 tag as a fallback
-  const h2Match = post.match(/<h2[^>]*>(.*?)<\/h2>/i);
-  if (h2Match && h2Match[1].trim()) {
-    return h2Match[1].trim().replace(/<[^>]*>/g, '');
-  }
+// Follow-up calls made to lengthen a post that falls short of its target
+const MAX_EXPANSION_ROUNDS = 2;
 
-  // Try to extract the first line from raw text that looks like a title
-  const lines = rawText.split('\n').map(line => line.trim()).filter(Boolean);
-  for (const line of lines) {
-    // Skip lines that are tags like [TITLE], [POST], etc.
-    if (line.match(/^\[\/?\w+\]$/)) continue;
+const resolveLengthTarget = ({ length, customTemplate }: GenerationOptions): LengthTarget =>
+  length || customTemplate?.length || DEFAULT_LENGTH_TARGET;
 
-    // Skip lines that are HTML tags
-    if (line.match(/^<\/?[\w\s="':;.#-\/\?\&]+>$/)) continue;
+function getPrompt(keyword: string, dateRangePrompt: string, template: string, options: GenerationOptions = {}): string {
+  const { customTemplate, language = 'ko' } = options;
+  const languageConfig = getLanguageConfig(language);
+  const tagCount = customTemplate?.tagCount || 10;
+  const length = scaleLengthTarget(resolveLengthTarget(options), language);
+  const translateHeadings = language === 'ko'
+    ? ''
+    : `
+          -   **소제목**: 위에 제시된 글 구조의 한국어 소제목과 예시는 ${languageConfig.promptName}로 자연스럽게 옮겨서 사용하세요.`;
 
-    // If the line is reasonably short (title-like) and doesn't start with HTML
-    if (line.length > 10 && line.length < 150 && !line.startsWith('<')) {
-      const plainText = line.replace(/<[^>]*>/g, '').trim();
-      if (plainText.length > 10) {
-        return plainText;
-      }
-    }
-  }
-
-  return '';
-}
-
-/**
- * Stage 3: Generate meaningful fallback title based on keyword and content
- */
-function generateFallbackTitle(keyword: string, post: string): string {
-  // Extract some context from the post to make the title more meaningful
-  const textContent = post.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
-
-  // Common patterns for generating contextual titles
-  const templates = [
-    `${keyword}: 최신 동향과 분석`,
-    `${keyword}에 대한 모든 것`,
-    `${keyword} 완벽 가이드`,
-    `알아야 할 ${keyword} 핵심 정보`,
-    `${keyword} 시장 분석 리포트`
-  ];
-
-  // Try to detect the type of content and choose appropriate template
-  if (textContent.includes('투자') || textContent.includes('시장')) {
-    return `${keyword} 시장 동향 및 투자 전망`;
-  } else if (textContent.includes('기술') || textContent.includes('혁신')) {
-    return `${keyword}: 기술 혁신과 미래 전망`;
-  } else if (textContent.includes('리뷰') || textContent.includes('장점') || textContent.includes('단점')) {
-    return `${keyword} 심층 분석 및 리뷰`;
-  }
-
-  // Default: Use the first template
-  return templates[0];
-}
-
-function getPrompt(keyword: string, dateRangePrompt: string, template: string): string {
   const commonInstructions = `
       작업 지시사항 (아래 순서를 반드시 지켜주세요):
       1.  **뉴스 검색**: Google 검색 도구를 사용하여 위 키워드에 대한 ${dateRangePrompt} 뉴스 기사 5개를 찾으세요.
       2.  **내용 분석 및 본문 초안 작성**: 찾은 5개의 뉴스 기사 내용을 종합하고 분석하여, 하나의 완성된 블로그 글 본문 초안을 작성하세요.
-      3.  **태그 생성**: 작성한 본문 초안의 내용과 가장 관련성이 높은 키워드 태그 10개를 쉼표(,)로 구분하여 생성해주세요. 예시: AI,반도체,기술,시장동향,NVIDIA,삼성전자,TSMC,미래기술,투자,혁신
-      4.  **이미지 검색 키워드 생성**: 블로그 글의 내용과 어울리는 이미지를 찾기 위한 **영어 검색 키워드** 3개를 생성해주세요. 이 키워드는 Pexels 이미지 검색에 사용됩니다. 글의 주제, 분위기, 핵심 개념을 잘 나타내는 구체적인 영어 단어나 구문을 사용하세요. 예시: government support,financial aid,Korean economy 또는 AI chip,semiconductor factory,technology innovation
+      3.  **태그 생성**: 작성한 본문 초안의 내용과 가장 관련성이 높은 키워드 태그 ${tagCount}개를 쉼표(,)로 구분하여 생성해주세요. 예시: ${languageConfig.tagExample}
+      4.  **이미지 검색 키워드 생성**: 블로그 글의 내용과 어울리는 이미지를 찾기 위한 **영어 검색 키워드** 3개를 생성해주세요. 이 키워드는 이미지 검색(Pexels, Unsplash 등)에 사용됩니다. 글의 주제, 분위기, 핵심 개념을 잘 나타내는 구체적인 영어 단어나 구문을 사용하세요. 예시: government support,financial aid,Korean economy 또는 AI chip,semiconductor factory,technology innovation
       5.  **(이미지 관련 지시사항 없음)**: **이미지는 절대 직접 생성하거나 삽입하지 마세요.** 오로지 텍스트와 태그만 생성하면 됩니다.
       6.  **제목 생성**: 완성된 글의 내용을 바탕으로, 사용자의 클릭을 유도할 수 있는 매력적이고(후킹), 검색 엔진 최적화(SEO)에 유리한 제목을 생성해주세요. 제목에는 반드시 핵심 키워드가 포함되어야 합니다.
-      7.  **참고 자료 제목 제공**: 본문([POST])에는 참고 자료 섹션을 포함하지 마세요. 대신 [SOURCES] 섹션에 검색한 뉴스 기사들의 제목을 **검색한 순서 그대로** 한 줄에 하나씩 작성해주세요. 각 제목 끝에 반드시 " - 언론사명" 형식으로 언론사를 포함해주세요. 예시: "삼성전자 신고가 경신 - 연합뉴스"
+      7.  **참고 자료 제목 제공**: 본문([POST])에는 참고 자료 섹션을 포함하지 마세요. 대신 [SOURCES] 섹션에 검색한 뉴스 기사들의 제목을 **검색한 순서 그대로** 한 줄에 하나씩 작성해주세요. 각 제목 끝에 반드시 " - 언론사명" 형식으로 언론사를 포함해주세요. 예시: "${languageConfig.sourceExample}"
       8.  **공통 규칙**:
-          -   **언어**: 글은 반드시 한국어로 작성해야 합니다.
-          -   **분량**: 글의 본문 길이는 3,000자에서 4,000자 사이여야 합니다.
+          -   **언어**: 글의 제목, 본문, 태그는 반드시 ${languageConfig.promptName}로 작성해야 합니다. (이미지 검색 키워드는 영어)${translateHeadings}
+          -   **분량**: 글의 본문 길이는 ${languageConfig.describeLength(length.min, length.max)}여야 합니다.
           -   **본문 형식**: 글의 본문은 HTML 형식이어야 합니다. <html>, <head>, <body> 태그는 제외하고, 글의 본문에 해당하는 HTML 태그(예: <h2>, <h3>, <p>, <ul>, <ol>, <li>, <strong>, <blockquote> 등)만 사용해주세요. 인라인 CSS는 꼭 필요한 경우(예: 이미지 스타일링)에만 최소한으로 사용하세요.
       9.  **최종 결과물 형식**: 작업 완료 후, 글 제목, 본문, 태그, 이미지 키워드, 참고 뉴스 제목을 각각 [TITLE], [POST], [TAGS], [IMAGE_KEYWORDS], [SOURCES] 섹션으로 구분하여 아래 형식에 맞춰 정확하게 반환해주세요. 다른 설명이나 추가 텍스트 없이 이 형식만 반환해야 합니다.
 [TITLE]
@@ -186,6 +103,22 @@ function getPrompt(keyword: string, dateRangePrompt: string, template: string):
 
 
 
+  if (customTemplate) {
+    const sections = customTemplate.sections
+      .map(section => `              -   <h2>${section.heading}</h2>: ${section.guidance}`)
+      .join('\n');
+
+    return `
+              ${customTemplate.persona}
+
+              키워드: "${keyword}"
+
+              글의 구조는 다음을 따라주세요:
+${sections}
+
+              ${commonInstructions}
+            `;
+  }
 
   switch (template) {
     case 'review':
@@ -267,8 +200,139 @@ function getPrompt(keyword: string, dateRangePrompt: string, template: string):
   }
 }
 
+/**
+ * Asks the model to fix only the fields the validator rejected, returning JSON
+ * that matches a schema restricted to those fields
+ */
+async function repairBlogPost(
+  keyword: string,
+  rawText: string,
+  draft: BlogPostDraft,
+  issues: ValidationIssue[],
+  rules: BlogPostRules,
+  language: Language,
+  signal?: AbortSignal
+): Promise<BlogPostDraft> {
+  const fields = Array.from(new Set(issues.map(issue => issue.field))) as BlogPostField[];
+  const issueList = issues.map(issue => `- ${issue.field}: ${issue.message}`).join('\n');
+
+  const prompt = `
+      아래는 키워드 "${keyword}"에 대한 블로그 글 생성 결과입니다. 일부 항목이 누락되었거나 형식이 잘못되었습니다.
+
+      문제 항목:
+${issueList}
+
+      원본 응답:
+      """
+${rawText}
+      """
+
+      위 원본 응답을 바탕으로 문제 항목(${fields.join(', ')})만 수정하여 JSON으로 반환하세요.
+      정상 항목은 다시 작성하지 말고, 원본 응답에 있는 내용과 사실을 최대한 그대로 유지하세요.
+      제목, 본문, 태그는 ${getLanguageConfig(language).promptName}로 작성하세요.
+    `;
+
+  const response = await getLlmProvider().generate({
+    prompt,
+    responseSchema: buildRepairSchema(fields, rules),
+    signal,
+  });
+
+  let repair: Partial<BlogPostDraft>;
+  try {
+    repair = JSON.parse(response.text || '{}');
+  } catch (e) {
+    console.error("Failed to parse repair response", e);
+    return draft;
+  }
+
+  return mergeRepair(draft, repair, fields, rules);
+}
+
+/**
+ * Rewrites the thinnest <h2> sections in one call so the post grows toward the
+ * middle of its target range; other sections are left untouched
+ */
+async function expandThinSections(
+  keyword: string,
+  title: string,
+  post: string,
+  report: LengthReport,
+  language: Language,
+  signal?: AbortSignal
+): Promise<string> {
+  const languageConfig = getLanguageConfig(language);
+  const chunks = splitByHeading(post);
+  const sections = chunks
+    .map((html, index) => ({ index, html, length: measurePostLength(html, language) }))
+    .filter(chunk => /^<h2\b/i.test(chunk.html));
+  if (sections.length === 0) return post;
+
+  const thinnest = [...sections]
+    .sort((a, b) => a.length - b.length)
+    .slice(0, Math.max(1, Math.min(3, Math.ceil(sections.length / 2))));
+  const needed = Math.round((report.min + report.max) / 2) - report.count;
+  const perSection = Math.ceil(needed / thinnest.length);
+  const unit = languageConfig.lengthUnitLabel;
+
+  const sectionList = thinnest
+    .map(section => `[SECTION ${section.index}]\n${section.html.trim()}\n[/SECTION ${section.index}]`)
+    .join('\n\n');
+
+  const prompt = `
+      당신은 블로그 글의 분량을 보강하는 전문 에디터입니다.
+
+      키워드: "${keyword}"
+      글 제목: "${title}"
+
+      [전체 글]
+${post}
+      [/전체 글]
+
+      [보강할 섹션]
+${sectionList}
+      [/보강할 섹션]
+
+      작업 지시사항:
+      1.  전체 글의 분량이 목표보다 부족합니다 (현재 ${report.count.toLocaleString()}${unit}, 목표 ${report.min.toLocaleString()}~${report.max.toLocaleString()}${unit}).
+      2.  "보강할 섹션"의 각 섹션을 약 ${perSection.toLocaleString()}${unit}씩 늘려 다시 작성하세요. 필요하면 Google 검색 도구로 최신 뉴스를 확인하여 구체적인 사실, 수치, 사례를 보강하세요.
+      3.  각 섹션의 <h2> 제목은 그대로 유지하고, 다른 섹션의 내용을 반복하거나 의미 없이 늘려 쓰지 마세요.
+      4.  이미지, <figure> 태그, 참고 자료 목록은 절대 포함하지 마세요.
+      5.  글은 반드시 ${languageConfig.promptName}로 작성하고, 본문용 HTML 태그만 사용하세요.
+      6.  다른 설명 없이 각 섹션을 받은 번호 그대로 아래 형식으로 반환하세요.
+[SECTION 번호]
+<h2>섹션 제목</h2>
+...
+[/SECTION 번호]
+    `;
+
+  const response = await getLlmProvider().generate({ prompt, useSearch: true, signal });
+
+  const expanded = [...chunks];
+  for (const match of response.text.matchAll(/\[SECTION (\d+)\]([\s\S]*?)\[\/SECTION \1\]/g)) {
+    const index = Number(match[1]);
+    const html = match[2].trim();
+    const original = thinnest.find(section => section.index === index);
+    // Only accept a well-formed section that actually got longer
+    if (original && /^<h2\b/i.test(html) && measurePostLength(html, language) > original.length) {
+      expanded[index] = html;
+    }
+  }
+
+  return expanded.join('');
+}
+
+export async function generateBlogPost(
+  keyword: string,
+  dateRange: string,
+  template: string,
+  options: GenerationOptions = {}
+): Promise<BlogPostResult> {
+  const { customTemplate, language = 'ko', onProgress, signal } = options;
+  if (template.startsWith('custom:') && customTemplate?.id !== template) {
+    throw new Error(`사용자 템플릿 정보를 찾을 수 없습니다: ${template}`);
+  }
 
-export async function generateBlogPost(keyword: string, dateRange: string, template: string): Promise<BlogPostResult> {
   let dateRangePrompt = '';
   switch (dateRange) {
     case 'day':
@@ -288,250 +352,281 @@ export async function generateBlogPost(keyword: string, dateRange: string, templ
       break;
   }
 
-  const prompt = getPrompt(keyword, dateRangePrompt, template);
+  const prompt = getPrompt(keyword, dateRangePrompt, template, options);
+  const lengthTarget = resolveLengthTarget(options);
+  const rules = rulesWithTagCount(customTemplate?.tagCount);
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
+    const response = await getLlmProvider().generate({
+      prompt,
+      useSearch: true,
+      onText: onProgress && (text => onProgress(parsePartialSections(text))),
+      signal,
     });
 
     const rawText = response.text;
 
-    const titleMatch = rawText.match(/\[TITLE\]([\s\S]*?)\[\/TITLE\]/);
-    const postMatch = rawText.match(/\[POST\]([\s\S]*?)\[\/POST\]/);
-    const tagsMatch = rawText.match(/\[TAGS\]([\s\S]*?)\[\/TAGS\]/);
-    const imageKeywordsMatch = rawText.match(/\[IMAGE_KEYWORDS\]([\s\S]*?)\[\/IMAGE_KEYWORDS\]/);
-    const sourcesMatch = rawText.match(/\[SOURCES\]([\s\S]*?)\[\/SOURCES\]/);
+    if (isBlockedFinishReason(response.finishReason)) {
+      throw new ServiceError('safetyBlocked', `finishReason: ${response.finishReason}`);
+    }
+    if (!rawText.trim()) {
+      throw new ServiceError('emptyResponse', `Empty response (finishReason: ${response.finishReason || 'none'})`);
+    }
+    // The model searched but found no pages to ground the post on
+    const searchQueries = response.groundingMetadata?.webSearchQueries || [];
+    if (searchQueries.length > 0 && !response.groundingMetadata?.groundingChunks?.length) {
+      throw new ServiceError('noGrounding', `No search results for: ${searchQueries.join(', ')}`);
+    }
 
-    let title = titleMatch ? titleMatch[1].trim() : '';
-    let post = postMatch ? postMatch[1].trim() : '';
-    const tagsString = tagsMatch ? tagsMatch[1].trim() : '';
-    const tags = tagsString.split(',').map(tag => tag.trim()).filter(Boolean);
-    const imageKeywordsString = imageKeywordsMatch ? imageKeywordsMatch[1].trim() : '';
-    const imageKeywords = imageKeywordsString.split(',').map(kw => kw.trim()).filter(Boolean);
+    // Parse the section markers into a typed draft and validate every field
+    let draft = parseBlogPostSections(rawText, rules);
+    let issues = validateBlogPost(draft, rules);
+
+    // Ask the model to fix only the broken fields, then re-validate
+    if (issues.length > 0) {
+      console.warn('Blog post failed validation, requesting repair:', issues);
+      onProgress?.({ stage: 'writing', title: draft.title, post: draft.post });
+      draft = await repairBlogPost(keyword, rawText, draft, issues, rules, language, signal);
+      issues = validateBlogPost(draft, rules);
+      if (issues.length > 0) {
+        throw new BlogPostValidationError(issues);
+      }
+    }
+
+    const { title, tags, imageKeywords, sources: sourceTitles } = draft;
+    let post = draft.post;
+
+    // Verify the body length and lengthen the thinnest sections while it falls short
+    let lengthReport = verifyPostLength(post, lengthTarget, language);
+    for (let round = 0; round < MAX_EXPANSION_ROUNDS && lengthReport.status === 'short'; round++) {
+      console.warn(`Blog post is too short (${lengthReport.count}/${lengthReport.min} ${lengthReport.unit}), expanding sections`);
+      onProgress?.({ stage: 'writing', title, post });
+      try {
+        post = await expandThinSections(keyword, title, post, lengthReport, language, signal);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        // Keep the shorter post; the report tells the editor it missed the target
+        console.error('Failed to expand blog post:', error);
+        break;
+      }
+      lengthReport = verifyPostLength(post, lengthTarget, language);
+    }
 
-    // Extract source titles from [SOURCES] section
-    const sourcesString = sourcesMatch ? sourcesMatch[1].trim() : '';
-    const sourceTitles = sourcesString.split('\n').map(s => s.trim().replace(/^[-•*\d.]+\s*/, '')).filter(Boolean);
+    onProgress?.({ stage: 'sourcing', title, post });
 
     // Extract grounding metadata from API response
-    const groundingMetadata = (response.candidates?.[0] as any)?.groundingMetadata;
-    const groundingChunks = groundingMetadata?.groundingChunks || [];
+    const groundingChunks = response.groundingMetadata?.groundingChunks || [];
 
-    // Build URL list with domain info
-    const groundingUrls: { url: string; domain: string }[] = groundingChunks.map((chunk: any) => ({
+    // Build URL list with domain info, keeping chunk indices so grounding supports can refer to it
+    const groundingUrls: { url: string; domain: string }[] = groundingChunks.map(chunk => ({
       url: chunk?.web?.uri || '',
       domain: chunk?.web?.title || '' // Domain like "chosun.com"
-    })).filter((item: any) => item.url);
-
-    // If the response doesn't follow the expected format, handle it gracefully.
-    if (!titleMatch && !postMatch && !tagsMatch) {
-      // Assume the entire response is the post content if no tags are found.
-      post = rawText;
-      title = keyword; // Use the keyword as a fallback title.
-    } else {
-      // If post is missing, try to extract it by removing other known tags.
-      if (!post) {
-        post = rawText
-          .replace(/\[TITLE\][\s\S]*?\[\/TITLE\]/, '')
-          .replace(/\[TAGS\][\s\S]*?\[\/TAGS\]/, '')
-          .replace(/\[SOURCES\][\s\S]*?\[\/SOURCES\]/, '')
-          .trim();
-
-        // If it's still empty, show an error message.
-        if (!post) {
-          post = '<p>블로그 본문을 생성하는 데 실패했습니다. AI가 예상치 못한 형식으로 응답했을 수 있습니다. 다른 키워드나 옵션으로 다시 시도해 보세요.</p>';
-        }
-      }
-
-      // Enhanced title extraction with multi-stage fallback
-      if (!title) {
-        // Stage 2: Try to extract title from the generated content
-        title = extractTitleFromContent(rawText, post);
-
-        // Stage 3: Generate meaningful fallback title if extraction failed
-        if (!title) {
-          title = generateFallbackTitle(keyword, post);
+    }));
+
+    // Match the AI-provided source titles to grounding URLs by outlet domain and title similarity,
+    // remembering which chunk each entry came from
+    const references: SourceMatch[] = sourceTitles.length > 0 && groundingUrls.some(({ url }) => url)
+      ? matchSources(sourceTitles.slice(0, 5), groundingUrls.map(({ url, domain }) => ({ url, title: domain })))
+      : [];
+
+    // Mark each grounded sentence with the numbers of the references backing it.
+    // Chunks cited by a support but missing from the list are appended as extra entries.
+    const citationSupports: CitationSupport[] = [];
+    for (const support of response.groundingMetadata?.groundingSupports || []) {
+      const referenceNumbers: number[] = [];
+      for (const chunkIndex of support.groundingChunkIndices || []) {
+        const grounding = groundingUrls[chunkIndex];
+        if (!grounding?.url) continue;
+        let position = references.findIndex(reference => reference.chunkIndex === chunkIndex);
+        if (position === -1) {
+          // The model cited this page directly, so the link itself is certain
+          references.push({ title: grounding.domain || grounding.url, outlet: findOutletByDomain(grounding.domain, getOutletRegistry().outlets)?.name, url: grounding.url, chunkIndex, confidence: 1 });
+          position = references.length - 1;
         }
+        referenceNumbers.push(position + 1);
       }
+      citationSupports.push({ text: support.segment?.text || '', referenceNumbers });
     }
+    post = insertCitations(post, citationSupports);
 
-    // Korean media outlet name-to-domain mapping for accurate URL matching
-    const mediaNameToDomain: Record<string, string[]> = {
-      '연합뉴스': ['yna.co.kr', 'yonhapnews.co.kr'],
-      '연합': ['yna.co.kr', 'yonhapnews.co.kr'],
-      '머니투데이': ['mt.co.kr'],
-      '매일경제': ['mk.co.kr'],
-      '매경': ['mk.co.kr'],
-      '조선일보': ['chosun.com'],
-      '조선': ['chosun.com'],
-      '조선비즈': ['biz.chosun.com'],
-      '동아일보': ['donga.com'],
-      '동아': ['donga.com'],
-      '한국경제': ['hankyung.com'],
-      '한경': ['hankyung.com'],
-      '한겨레': ['hani.co.kr'],
-      'SBS': ['sbs.co.kr'],
-      'KBS': ['kbs.co.kr'],
-      'MBC': ['mbc.co.kr'],
-      'YTN': ['ytn.co.kr'],
-      '뉴시스': ['newsis.com'],
-      '뉴스1': ['news1.kr'],
-      '전자신문': ['etnews.com'],
-      'ZDNet': ['zdnet.co.kr'],
-      '서울경제': ['sedaily.com'],
-      '이데일리': ['edaily.co.kr'],
-      '뉴데일리': ['newdaily.co.kr'],
-      '파이낸셜뉴스': ['fnnews.com'],
-      '파이낸셜': ['fnnews.com'],
-      '한국경제TV': ['wowtv.co.kr'],
-      '다음': ['daum.net', 'v.daum.net'],
-      'Daum': ['daum.net', 'v.daum.net'],
-      '네이버': ['naver.com', 'news.naver.com'],
-      'Naver': ['naver.com', 'news.naver.com'],
-      '비즈니스포스트': ['businesspost.co.kr'],
-      '연합인포맥스': ['infomax.co.kr', 'einfomax.co.kr'],
-      '아시아경제': ['asiae.co.kr'],
-      '노컷뉴스': ['nocutnews.co.kr'],
-      'CBS': ['nocutnews.co.kr'],
-      'JTBC': ['jtbc.co.kr'],
-      'TV조선': ['tvchosun.com'],
-      '문화일보': ['munhwa.com'],
-      '뉴스탑코리아': ['newstopkorea.com'],
-      '지디넷코리아': ['g-enews.com'],
-      '티스토리': ['tistory.com'],
-    };
-
-    // Function to extract media name from title (usually at the end after " - ")
-    const extractMediaName = (titleStr: string): string => {
-      const match = titleStr.match(/[-–—]\s*([^-–—]+)$/);
-      return match ? match[1].trim() : '';
-    };
-
-    // Function to find matching URL for a given source title
-    const findMatchingUrl = (sourceTitle: string, urlList: { url: string; domain: string }[], usedIndices: Set<number>): { url: string; index: number } | null => {
-      const mediaName = extractMediaName(sourceTitle);
-      if (!mediaName) return null;
-
-      // Get expected domains for this media name
-      const expectedDomains = mediaNameToDomain[mediaName] || [];
-
-      // Try to find a matching URL by domain
-      for (let i = 0; i < urlList.length; i++) {
-        if (usedIndices.has(i)) continue;
-
-        const { domain } = urlList[i];
-        // Check if the domain matches any expected domain for this media
-        const isMatch = expectedDomains.some(expected =>
-          domain.includes(expected) || expected.includes(domain)
-        );
-
-        if (isMatch) {
-          return { url: urlList[i].url, index: i };
-        }
-      }
-
-      return null;
-    };
+    // The references block is rendered later in the citation style the editor picks
+    const accessedAt = new Date().toISOString().slice(0, 10);
+    const sources: Source[] = references.map(({ chunkIndex: _chunkIndex, ...source }) => ({ ...source, accessedAt }));
 
-    // Generate references section using AI-provided titles with domain-based URL matching
-    if (sourceTitles.length > 0 && groundingUrls.length > 0) {
-      let referencesHtml = '<div class="references-section" style="margin-top: 3em; padding-top: 2em; border-top: 1px solid #e5e7eb;">';
-      referencesHtml += '<h2 style="font-size: 1.25em; font-weight: bold; color: #374151; margin-bottom: 1em;">📚 참고 자료</h2>';
-      referencesHtml += '<ul style="list-style: none; padding: 0; margin: 0;">';
-
-      const usedUrlIndices = new Set<number>();
+    // Return blog post without images - images will be added separately via fetchAndInjectImages
+    return { title, post, tags, imageKeywords, sources, language, lengthTarget };
 
-      for (let i = 0; i < Math.min(sourceTitles.length, 5); i++) {
-        const sourceTitle = sourceTitles[i];
+  } catch (error) {
+    // A cancelled run is not a failure worth reporting
+    if (signal?.aborted) throw error;
+    console.error("Error generating blog post:", error);
+    throw classifyError(error);
+  }
+}
 
-        // Try domain-based matching first
-        const matchResult = findMatchingUrl(sourceTitle, groundingUrls, usedUrlIndices);
 
-        let finalUrl = '';
-        if (matchResult) {
-          finalUrl = matchResult.url;
-          usedUrlIndices.add(matchResult.index);
-        } else if (groundingUrls[i] && !usedUrlIndices.has(i)) {
-          // Fallback: use URL at same index
-          finalUrl = groundingUrls[i].url;
-          usedUrlIndices.add(i);
-        }
+/**
+ * Rewrites one <h2> section of a post, using the rest of the post as context
+ * @param keyword - The original keyword of the post
+ * @param title - The post title
+ * @param post - The full post HTML without images or references, used as context
+ * @param section - The section to rewrite, starting with its <h2>
+ * @param instruction - Optional editor instruction such as "more numbers" or "shorter"
+ * @param language - Language the post is written in
+ * @param signal - Cancels the request
+ * @returns The new section HTML, starting with the same <h2>
+ */
+export async function regenerateSection(
+  keyword: string,
+  title: string,
+  post: string,
+  section: string,
+  instruction: string = '',
+  language: Language = 'ko',
+  signal?: AbortSignal
+): Promise<string> {
+  const prompt = `
+      당신은 블로그 글의 특정 섹션만 다시 작성하는 전문 에디터입니다.
+
+      키워드: "${keyword}"
+      글 제목: "${title}"
+
+      [전체 글]
+${post}
+      [/전체 글]
+
+      [다시 쓸 섹션]
+${section}
+      [/다시 쓸 섹션]
+
+      작업 지시사항:
+      1.  필요하면 Google 검색 도구로 최신 뉴스를 확인하여 "다시 쓸 섹션"만 새로 작성하세요.
+      2.  섹션의 <h2> 제목은 그대로 유지하고, 앞뒤 섹션과 자연스럽게 이어지되 다른 섹션의 내용을 반복하지 마세요.
+      3.  추가 요청사항: ${instruction.trim() || '없음 (내용을 더 충실하고 읽기 좋게 다듬어주세요)'}
+      4.  이미지, <figure> 태그, 참고 자료 목록은 절대 포함하지 마세요.
+      5.  글은 반드시 ${getLanguageConfig(language).promptName}로 작성하고, <h2>, <h3>, <p>, <ul>, <ol>, <li>, <strong>, <blockquote> 등 본문용 HTML 태그만 사용하세요.
+      6.  다른 설명 없이 아래 형식만 반환하세요.
+[SECTION]
+<h2>섹션 제목</h2>
+...
+[/SECTION]
+    `;
 
-        if (finalUrl) {
-          referencesHtml += `<li style="margin-bottom: 0.8em;"><a href="${finalUrl}" target="_blank" rel="noopener noreferrer" style="color: #2563eb; text-decoration: none;">${sourceTitle}</a></li>`;
-        } else {
-          referencesHtml += `<li style="margin-bottom: 0.8em; color: #6b7280;">${sourceTitle}</li>`;
-        }
-      }
+  try {
+    const response = await getLlmProvider().generate({ prompt, useSearch: true, signal });
+    const match = response.text.match(/\[SECTION\]([\s\S]*?)\[\/SECTION\]/);
+    const newSection = match ? match[1].trim() : '';
 
-      referencesHtml += '</ul></div>';
-      post += referencesHtml;
+    if (!/<h2\b/i.test(newSection) || !/<(p|ul|ol|h3|blockquote)\b/i.test(newSection)) {
+      throw new Error('AI가 올바른 섹션 형식으로 응답하지 않았습니다.');
     }
 
-
-    // Return blog post without images - images will be added separately via fetchAndInjectImages
-    return { title, post, tags: tags.slice(0, 10), imageKeywords };
-
+    return newSection;
   } catch (error) {
-    console.error("Error generating blog post with Gemini:", error);
+    if (signal?.aborted) throw error;
+    console.error("Error regenerating section:", error);
     if (error instanceof Error) {
-      throw new Error(`블로그 글 생성 중 오류 발생: ${error.message}`);
+      throw new Error(`섹션 재생성 중 오류 발생: ${error.message}`);
     }
     throw new Error("알 수 없는 오류가 발생했습니다.");
   }
 }
 
+/**
+ * Searches each provider in order, trying every image keyword before the fallback
+ * keyword, and returns the first non-empty result with the provider that produced it.
+ * A provider that fails is skipped; its error is kept in `failures`.
+ */
+async function searchImages(
+  providers: ImageProvider[],
+  imageKeywords: string[],
+  fallbackKeyword: string,
+  count: number = 3,
+  locale?: string,
+  signal?: AbortSignal,
+  failures: ServiceError[] = []
+): Promise<{ provider: ImageProvider; photos: Photo[] } | null> {
+  const queries = [...imageKeywords, fallbackKeyword].filter(query => query.trim());
+
+  for (const provider of providers) {
+    for (const query of queries) {
+      try {
+        const photos = await provider.search(query, count, locale, signal);
+        if (photos.length > 0) {
+          console.log(`Found images on ${provider.label} using keyword: ${query}`);
+          return { provider, photos };
+        }
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error(`Failed to fetch images from ${provider.label}:`, error);
+        failures.push(classifyImageError(error));
+        break; // Move on to the next provider
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Photo fields come from third-party APIs and manifests, so they are escaped; the
+ * provider's attribution is HTML it already escaped
+ */
+function renderFigure(photo: Photo, provider: ImageProvider, fallbackAlt: string): string {
+  const attribution = provider.renderAttribution(photo);
+  return `
+          <figure style="margin: 2.5em 0; text-align: center; clear: both; page-break-inside: avoid;">
+            <img src="${escapeHtml(photo.src)}" alt="${escapeHtml(photo.alt || fallbackAlt)}" style="max-width: 100%; height: auto; border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);" />${attribution ? `
+            <figcaption style="font-size: 0.85em; color: #888; margin-top: 0.7em;">
+              ${attribution}
+            </figcaption>` : ''}
+          </figure>
+        `;
+}
 
 /**
- * Fetches images from Pexels using the provided keywords and injects them into the post
+ * Fetches images from the selected providers using the provided keywords and injects them into the post
  * @param post - The HTML blog post content
  * @param imageKeywords - Array of English keywords to search for images
- * @param fallbackKeyword - Fallback keyword (original Korean keyword) if no images found
+ * @param fallbackKeyword - Fallback keyword (the original keyword) if no images found
+ * @param providerOrder - Image providers to try, in order of preference
+ * @param language - Language of the post, used as the image search locale
+ * @param signal - Cancels the image searches
  * @returns The post with images injected
+ * @throws ServiceError when no images were found because a provider failed
  */
 export async function fetchAndInjectImages(
   post: string,
   imageKeywords: string[],
-  fallbackKeyword: string
+  fallbackKeyword: string,
+  providerOrder?: ImageProviderId[],
+  language: Language = 'ko',
+  signal?: AbortSignal
 ): Promise<{ post: string; imagesFound: boolean }> {
-  if (!isPexelsConfigured()) {
-    console.warn("PEXELS_API_KEY is not set. Skipping image fetch.");
+  const providers = resolveImageProviders(providerOrder);
+  if (providers.length === 0) {
+    console.warn("No image provider is configured. Skipping image fetch.");
     return { post, imagesFound: false };
   }
 
-  let images: PexelsPhoto[] = [];
-
-  // Priority 1: Use provided image keywords
-  if (imageKeywords.length > 0) {
-    for (const imgKeyword of imageKeywords) {
-      images = await fetchImagesFromPexels(imgKeyword);
-      if (images.length > 0) {
-        console.log(`Found images using keyword: ${imgKeyword}`);
-        break;
-      }
-    }
-  }
-
-  // Priority 2: Final fallback to original keyword
-  if (images.length === 0) {
-    images = await fetchImagesFromPexels(fallbackKeyword);
-  }
-
-  if (images.length === 0) {
+  const failures: ServiceError[] = [];
+  const result = await searchImages(providers, imageKeywords, fallbackKeyword, 3, getLanguageConfig(language).imageLocale, signal, failures);
+  if (!result) {
+    // Only a real failure is an error; finding nothing is not
+    if (failures.length > 0) throw failures[0];
     return { post, imagesFound: false };
   }
 
+  const { provider, photos } = result;
+  const usedPhotos: Photo[] = [];
+
   // Insert images into the post
   const paragraphs = post.split('</p>');
   const totalParagraphs = paragraphs.length;
+  let injectedPost = post;
 
   if (totalParagraphs > 3) {
-    let injectedPost = '';
+    injectedPost = '';
     let imageIndex = 0;
 
     const points = [
@@ -541,38 +636,26 @@ export async function fetchAndInjectImages(
     ];
 
     for (let i = 0; i < paragraphs.length; i++) {
-      injectedPost += paragraphs[i] + '</p>';
+      // The text after the last </p> had none to begin with
+      injectedPost += paragraphs[i] + (i < paragraphs.length - 1 ? '</p>' : '');
 
-      if (images[imageIndex] && points.includes(i + 1)) {
-        const img = images[imageIndex];
-        const imgHtml = `
-          <figure style="margin: 2.5em 0; text-align: center; clear: both; page-break-inside: avoid;">
-            <img src="${img.src.large}" alt="${img.alt || fallbackKeyword}" style="max-width: 100%; height: auto; border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);" />
-            <figcaption style="font-size: 0.85em; color: #888; margin-top: 0.7em;">
-              Photo by <a href="${img.photographer_url}" target="_blank" rel="noopener noreferrer">${img.photographer}</a> on <a href="https://www.pexels.com" target="_blank" rel="noopener noreferrer">Pexels</a>
-            </figcaption>
-          </figure>
-        `;
-        injectedPost += imgHtml;
+      if (photos[imageIndex] && points.includes(i + 1)) {
+        injectedPost += renderFigure(photos[imageIndex], provider, fallbackKeyword);
+        usedPhotos.push(photos[imageIndex]);
         imageIndex++;
       }
     }
-    return { post: injectedPost, imagesFound: true };
-  } else {
+  } else if (paragraphs.length >= 1) {
     // Content is too short, just append one image after the first paragraph
-    if (paragraphs.length >= 1) {
-      const img = images[0];
-      const imgHtml = `
-          <figure style="margin: 2.5em 0; text-align: center; clear: both; page-break-inside: avoid;">
-            <img src="${img.src.large}" alt="${img.alt || fallbackKeyword}" style="max-width: 100%; height: auto; border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);" />
-            <figcaption style="font-size: 0.85em; color: #888; margin-top: 0.7em;">
-              Photo by <a href="${img.photographer_url}" target="_blank" rel="noopener noreferrer">${img.photographer}</a> on <a href="https://www.pexels.com" target="_blank" rel="noopener noreferrer">Pexels</a>
-            </figcaption>
-          </figure>
-        `;
-      return { post: paragraphs[0] + '</p>' + imgHtml + paragraphs.slice(1).join('</p>'), imagesFound: true };
-    }
+    injectedPost = paragraphs[0] + '</p>' + renderFigure(photos[0], provider, fallbackKeyword) + paragraphs.slice(1).join('</p>');
+    usedPhotos.push(photos[0]);
+  }
+
+  if (provider.trackUsage) {
+    await Promise.all(usedPhotos.map(photo => provider.trackUsage!(photo, signal).catch(error => {
+      console.error(`Failed to report image usage to ${provider.label}:`, error);
+    })));
   }
 
-  return { post, imagesFound: false };
+  return { post: injectedPost, imagesFound: usedPhotos.length > 0 };
 }
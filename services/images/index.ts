@@ -0,0 +1,68 @@
+import { createLocalProvider } from "./localProvider";
+import { createPexelsProvider } from "./pexelsProvider";
+import { createUnsplashProvider } from "./unsplashProvider";
+import { retryPolicyFromEnv, withRetry, type RetryPolicy } from "../retry";
+import type { ImageProvider, ImageProviderId, ImageProviderInfo } from "./types";
+
+export type { ImageProvider, ImageProviderId, ImageProviderInfo, Photo } from "./types";
+export type { LocalPhotoEntry, LocalPhotoManifest } from "./localProvider";
+
+export const DEFAULT_IMAGE_PROVIDER_ORDER: ImageProviderId[] = ['pexels', 'unsplash', 'local'];
+
+const DEFAULT_IMAGE_TIMEOUT_MS = 15000;
+
+/**
+ * Retries a remote provider's API calls with backoff and limits each attempt to `timeoutMs`
+ */
+function withRetryPolicy(provider: ImageProvider, policy: RetryPolicy, timeoutMs: number): ImageProvider {
+  const options = { label: provider.label, policy, timeoutMs };
+  return {
+    ...provider,
+    search: (query, count, locale, signal) =>
+      withRetry(attemptSignal => provider.search(query, count, locale, attemptSignal), { ...options, signal }),
+    trackUsage: provider.trackUsage && ((photo, signal) =>
+      withRetry(attemptSignal => provider.trackUsage!(photo, attemptSignal), { ...options, signal })),
+  };
+}
+
+let providers: Record<ImageProviderId, ImageProvider> | null = null;
+
+/**
+ * Creates the providers once; Pexels and Unsplash retry per RETRY_* and time out after IMAGE_TIMEOUT_MS
+ */
+function getProviders(): Record<ImageProviderId, ImageProvider> {
+  if (!providers) {
+    const env = process.env;
+    const policy = retryPolicyFromEnv(env);
+    const timeoutMs = Number(env.IMAGE_TIMEOUT_MS) || DEFAULT_IMAGE_TIMEOUT_MS;
+    providers = {
+      pexels: withRetryPolicy(createPexelsProvider(env.PEXELS_API_KEY), policy, timeoutMs),
+      unsplash: withRetryPolicy(createUnsplashProvider(env.UNSPLASH_ACCESS_KEY), policy, timeoutMs),
+      local: createLocalProvider({
+        manifestPath: env.LOCAL_IMAGE_MANIFEST || 'public/images/manifest.json',
+        directory: env.LOCAL_IMAGE_DIR,
+        baseUrl: env.LOCAL_IMAGE_BASE_URL,
+      }),
+    };
+  }
+  return providers;
+}
+
+/**
+ * Resolves a user-selected order to configured providers, dropping unknown or unconfigured ids
+ */
+export function resolveImageProviders(order: ImageProviderId[] = DEFAULT_IMAGE_PROVIDER_ORDER): ImageProvider[] {
+  const all = getProviders();
+  return Array.from(new Set(order))
+    .map(id => all[id])
+    .filter((provider): provider is ImageProvider => !!provider && provider.isConfigured());
+}
+
+export function listImageProviders(): ImageProviderInfo[] {
+  const all = getProviders();
+  return DEFAULT_IMAGE_PROVIDER_ORDER.map(id => ({
+    id,
+    label: all[id].label,
+    configured: all[id].isConfigured(),
+  }));
+}
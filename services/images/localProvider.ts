@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import { escapeHtml } from "../html";
+import type { ImageProvider, Photo } from "./types";
+
+/**
+ * An in-house licensed photo. `src` is a URL the published post can load,
+ * e.g. a path under public/ or a CDN URL.
+ */
+export interface LocalPhotoEntry {
+  id?: string;
+  src: string;
+  alt: string;
+  keywords: string[];
+  width?: number;
+  height?: number;
+  /** Caption credit such as "© Brand Studio"; omitted when no attribution is needed */
+  credit?: string;
+  creditUrl?: string;
+}
+
+export interface LocalPhotoManifest {
+  photos: LocalPhotoEntry[];
+}
+
+export interface LocalProviderConfig {
+  /** Path to a JSON manifest of licensed photos */
+  manifestPath?: string;
+  /** Directory of image files used when there is no manifest; keywords come from file names */
+  directory?: string;
+  /** Public URL prefix of the directory */
+  baseUrl?: string;
+}
+
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|gif|avif)$/i;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 1);
+}
+
+function loadEntries({ manifestPath, directory, baseUrl = '/images' }: LocalProviderConfig): LocalPhotoEntry[] {
+  if (manifestPath && fs.existsSync(manifestPath)) {
+    const manifest: LocalPhotoManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    return manifest.photos || [];
+  }
+
+  if (directory && fs.existsSync(directory)) {
+    return fs.readdirSync(directory)
+      .filter(file => IMAGE_EXTENSIONS.test(file))
+      .map(file => {
+        const name = path.basename(file, path.extname(file));
+        return {
+          id: file,
+          src: `${baseUrl.replace(/\/$/, '')}/${encodeURIComponent(file)}`,
+          alt: name.replace(/[-_]+/g, ' '),
+          keywords: tokenize(name),
+        };
+      });
+  }
+
+  return [];
+}
+
+/**
+ * Searches our own licensed photos by keyword overlap, so brand blogs can use
+ * in-house images instead of stock results
+ */
+export function createLocalProvider(config: LocalProviderConfig): ImageProvider {
+  let entries: LocalPhotoEntry[] | null = null;
+  const getEntries = () => {
+    if (!entries) {
+      entries = loadEntries(config);
+    }
+    return entries;
+  };
+
+  return {
+    id: 'local',
+    label: '자체 이미지',
+    isConfigured: () => getEntries().length > 0,
+
+    async search(query: string, count: number): Promise<Photo[]> {
+      const queryTokens = tokenize(query);
+      if (queryTokens.length === 0) return [];
+
+      return getEntries()
+        .map(entry => {
+          const entryTokens = new Set([...entry.keywords.flatMap(tokenize), ...tokenize(entry.alt)]);
+          const score = queryTokens.filter(token => entryTokens.has(token)).length;
+          return { entry, score };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, count)
+        .map(({ entry }) => ({
+          id: entry.id || entry.src,
+          provider: 'local',
+          src: entry.src,
+          alt: entry.alt,
+          width: entry.width,
+          height: entry.height,
+          author: entry.credit,
+          authorUrl: entry.creditUrl,
+        }));
+    },
+
+    renderAttribution(photo: Photo): string {
+      if (!photo.author) return '';
+      return photo.authorUrl
+        ? `<a href="${escapeHtml(photo.authorUrl)}" target="_blank" rel="noopener noreferrer">${escapeHtml(photo.author)}</a>`
+        : escapeHtml(photo.author);
+    },
+  };
+}
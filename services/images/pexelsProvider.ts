@@ -0,0 +1,71 @@
+import { escapeHtml } from "../html";
+import { HttpStatusError, parseRetryAfter } from "../retry";
+import type { ImageProvider, Photo } from "./types";
+
+interface PexelsPhoto {
+  id: number;
+  width: number;
+  height: number;
+  url: string;
+  photographer: string;
+  photographer_url: string;
+  photographer_id: number;
+  avg_color: string;
+  src: {
+    original: string;
+    large2x: string;
+    large: string;
+    medium: string;
+    small: string;
+    portrait: string;
+    landscape: string;
+    tiny: string;
+  };
+  alt: string;
+}
+
+interface PexelsResponse {
+  total_results: number;
+  page: number;
+  per_page: number;
+  photos: PexelsPhoto[];
+  next_page?: string;
+}
+
+export function createPexelsProvider(apiKey: string | undefined): ImageProvider {
+  return {
+    id: 'pexels',
+    label: 'Pexels',
+    isConfigured: () => !!apiKey,
+
+    async search(query: string, count: number, locale: string = 'ko-KR', signal?: AbortSignal): Promise<Photo[]> {
+      const response = await fetch(`https://api.pexels.com/v1/search?query=${encodeURIComponent(query)}&per_page=${count}&locale=${locale}`, {
+        headers: {
+          Authorization: apiKey!,
+        },
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new HttpStatusError('Pexels', response.status, response.statusText, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+
+      const data: PexelsResponse = await response.json();
+      return (data.photos || []).map(photo => ({
+        id: String(photo.id),
+        provider: 'pexels',
+        src: photo.src.large,
+        alt: photo.alt,
+        width: photo.width,
+        height: photo.height,
+        pageUrl: photo.url,
+        author: photo.photographer,
+        authorUrl: photo.photographer_url,
+      }));
+    },
+
+    renderAttribution(photo: Photo): string {
+      return `Photo by <a href="${escapeHtml(photo.authorUrl || '')}" target="_blank" rel="noopener noreferrer">${escapeHtml(photo.author || '')}</a> on <a href="https://www.pexels.com" target="_blank" rel="noopener noreferrer">Pexels</a>`;
+    },
+  };
+}
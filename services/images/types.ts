@@ -0,0 +1,38 @@
+export type ImageProviderId = 'pexels' | 'unsplash' | 'local';
+
+/**
+ * Provider-neutral photo metadata used to render an injected <figure>
+ */
+export interface Photo {
+  id: string;
+  provider: ImageProviderId;
+  /** URL of the image rendered in the post */
+  src: string;
+  alt: string;
+  width?: number;
+  height?: number;
+  /** Page of the photo on the provider's site */
+  pageUrl?: string;
+  author?: string;
+  authorUrl?: string;
+  /** Provider-specific data needed by trackUsage, e.g. Unsplash download_location */
+  usageUrl?: string;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  isConfigured(): boolean;
+  /** Locale such as 'ko-KR'; providers that cannot localize results ignore it */
+  search(query: string, count: number, locale?: string, signal?: AbortSignal): Promise<Photo[]>;
+  /** Returns the figcaption HTML required by the provider's license, with photo fields escaped, or '' when none is needed */
+  renderAttribution(photo: Photo): string;
+  /** Reports that a photo was used, for providers whose API guidelines require it */
+  trackUsage?(photo: Photo, signal?: AbortSignal): Promise<void>;
+}
+
+export interface ImageProviderInfo {
+  id: ImageProviderId;
+  label: string;
+  configured: boolean;
+}
@@ -0,0 +1,87 @@
+import { escapeHtml } from "../html";
+import { HttpStatusError, parseRetryAfter } from "../retry";
+import type { ImageProvider, Photo } from "./types";
+
+interface UnsplashPhoto {
+  id: string;
+  width: number;
+  height: number;
+  description: string | null;
+  alt_description: string | null;
+  urls: {
+    raw: string;
+    full: string;
+    regular: string;
+    small: string;
+    thumb: string;
+  };
+  links: {
+    html: string;
+    download_location: string;
+  };
+  user: {
+    name: string;
+    links: {
+      html: string;
+    };
+  };
+}
+
+interface UnsplashSearchResponse {
+  total: number;
+  total_pages: number;
+  results: UnsplashPhoto[];
+}
+
+// Unsplash guidelines require attribution links to carry these referral params
+const UTM_PARAMS = 'utm_source=autoblog&utm_medium=referral';
+
+export function createUnsplashProvider(accessKey: string | undefined): ImageProvider {
+  return {
+    id: 'unsplash',
+    label: 'Unsplash',
+    isConfigured: () => !!accessKey,
+
+    async search(query: string, count: number, locale?: string, signal?: AbortSignal): Promise<Photo[]> {
+      const lang = locale ? `&lang=${locale.split('-')[0]}` : '';
+      const response = await fetch(`https://api.unsplash.com/search/photos?query=${encodeURIComponent(query)}&per_page=${count}&content_filter=high${lang}`, {
+        headers: {
+          Authorization: `Client-ID ${accessKey}`,
+          'Accept-Version': 'v1',
+        },
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new HttpStatusError('Unsplash', response.status, response.statusText, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+
+      const data: UnsplashSearchResponse = await response.json();
+      return (data.results || []).map(photo => ({
+        id: photo.id,
+        provider: 'unsplash',
+        src: photo.urls.regular,
+        alt: photo.alt_description || photo.description || '',
+        width: photo.width,
+        height: photo.height,
+        pageUrl: photo.links.html,
+        author: photo.user.name,
+        authorUrl: photo.user.links.html,
+        usageUrl: photo.links.download_location,
+      }));
+    },
+
+    renderAttribution(photo: Photo): string {
+      return `Photo by <a href="${escapeHtml(`${photo.authorUrl}?${UTM_PARAMS}`)}" target="_blank" rel="noopener noreferrer">${escapeHtml(photo.author || '')}</a> on <a href="https://unsplash.com/?${escapeHtml(UTM_PARAMS)}" target="_blank" rel="noopener noreferrer">Unsplash</a>`;
+    },
+
+    // Unsplash requires hitting download_location whenever a photo is used
+    async trackUsage(photo: Photo, signal?: AbortSignal): Promise<void> {
+      if (!photo.usageUrl) return;
+      await fetch(photo.usageUrl, {
+        headers: { Authorization: `Client-ID ${accessKey}` },
+        signal,
+      });
+    },
+  };
+}
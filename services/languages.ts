@@ -0,0 +1,88 @@
+import type { Language, LengthTarget } from "../types";
+
+export interface LanguageConfig {
+  /** Name used inside the Korean prompt, e.g. "영어로 작성" */
+  promptName: string;
+  /** Name used inside English prompts, e.g. the daily digest */
+  englishName: string;
+  /** HTML lang attribute */
+  htmlLang: string;
+  /** Locale passed to image search APIs */
+  imageLocale: string;
+  referencesHeading: string;
+  tagExample: string;
+  sourceExample: string;
+  /** Body length is counted in characters or in words */
+  lengthUnit: 'chars' | 'words';
+  /** Korean characters carrying the content of one length unit; length targets are set in Korean characters */
+  charsPerUnit: number;
+  /** Unit label shown in the UI */
+  lengthUnitLabel: string;
+  /** Prompt phrase for a target body length, already converted to the language's unit */
+  describeLength: (min: number, max: number) => string;
+  /** Retrieval phrase of an APA-style citation, with the access date already formatted */
+  describeRetrieval: (date: string, url: string) => string;
+}
+
+export const LANGUAGE_CONFIGS: Record<Language, LanguageConfig> = {
+  ko: {
+    promptName: '한국어',
+    englishName: 'Korean',
+    htmlLang: 'ko',
+    imageLocale: 'ko-KR',
+    referencesHeading: '참고 자료',
+    tagExample: 'AI,반도체,기술,시장동향,NVIDIA,삼성전자,TSMC,미래기술,투자,혁신',
+    sourceExample: '삼성전자 신고가 경신 - 연합뉴스',
+    lengthUnit: 'chars',
+    charsPerUnit: 1,
+    lengthUnitLabel: '자',
+    describeLength: (min, max) => `${min.toLocaleString()}자에서 ${max.toLocaleString()}자 사이`,
+    describeRetrieval: (date, url) => `${date}에 검색, ${url}`,
+  },
+  en: {
+    promptName: '영어',
+    englishName: 'English',
+    htmlLang: 'en',
+    imageLocale: 'en-US',
+    referencesHeading: 'References',
+    tagExample: 'AI,semiconductors,technology,market trends,NVIDIA,Samsung,TSMC,innovation,investing,chips',
+    sourceExample: 'Samsung shares hit record high - Reuters',
+    lengthUnit: 'words',
+    charsPerUnit: 3.5,
+    lengthUnitLabel: '단어',
+    describeLength: (min, max) => `영어 단어 기준 ${min.toLocaleString()}~${max.toLocaleString()} 단어`,
+    describeRetrieval: (date, url) => `Retrieved ${date}, from ${url}`,
+  },
+  ja: {
+    promptName: '일본어',
+    englishName: 'Japanese',
+    htmlLang: 'ja',
+    imageLocale: 'ja-JP',
+    referencesHeading: '参考資料',
+    tagExample: 'AI,半導体,テクノロジー,市場動向,NVIDIA,サムスン電子,TSMC,イノベーション,投資,未来技術',
+    sourceExample: 'サムスン電子が上場来高値を更新 - 日本経済新聞',
+    lengthUnit: 'chars',
+    charsPerUnit: 1,
+    lengthUnitLabel: '자',
+    describeLength: (min, max) => `일본어 문자 기준 ${min.toLocaleString()}자에서 ${max.toLocaleString()}자 사이`,
+    describeRetrieval: (date, url) => `${date}閲覧, ${url}`,
+  },
+};
+
+export function getLanguageConfig(language: Language = 'ko'): LanguageConfig {
+  return LANGUAGE_CONFIGS[language] || LANGUAGE_CONFIGS.ko;
+}
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && value in LANGUAGE_CONFIGS;
+}
+
+/**
+ * Converts a target given in Korean characters into the language's own unit
+ */
+export function scaleLengthTarget(target: LengthTarget, language: Language = 'ko'): LengthTarget {
+  const { charsPerUnit } = getLanguageConfig(language);
+  if (charsPerUnit === 1) return target;
+  const scale = (value: number) => Math.max(50, Math.round(value / charsPerUnit / 50) * 50);
+  return { min: scale(target.min), max: scale(target.max) };
+}
@@ -0,0 +1,76 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Language, Template } from '../types';
+
+/**
+ * What a digest email link lets its holder do: start one generation, or open one stored draft
+ */
+export type DigestLink =
+  | { action: 'generate'; keyword: string; template: Template; language: Language }
+  | { action: 'draft'; draftId: string };
+
+type SignedLink = DigestLink & { exp: number };
+
+export type LinkTokenFailure = 'expired' | 'invalid';
+
+export class LinkTokenError extends Error {
+  reason: LinkTokenFailure;
+
+  constructor(reason: LinkTokenFailure) {
+    super(reason === 'expired'
+      ? '링크가 만료되었습니다. 최신 다이제스트 메일의 링크를 사용해주세요.'
+      : '올바르지 않은 링크입니다. 메일의 링크를 그대로 열어주세요.');
+    this.name = 'LinkTokenError';
+    this.reason = reason;
+  }
+}
+
+const DEFAULT_LINK_TTL_HOURS = 72;
+
+/**
+ * LINK_SIGNING_SECRET signs the links; deployments without one reuse CRON_SECRET
+ */
+function getSigningSecret(): string {
+  const secret = process.env.LINK_SIGNING_SECRET || process.env.CRON_SECRET;
+  if (!secret) {
+    throw new Error('LINK_SIGNING_SECRET environment variable not set');
+  }
+  return secret;
+}
+
+const sign = (payload: string) => createHmac('sha256', getSigningSecret()).update(payload).digest('base64url');
+
+/**
+ * Signs a digest link as "<base64url payload>.<base64url HMAC-SHA256>", valid
+ * for DIGEST_LINK_TTL_HOURS (default 72) from now
+ */
+export function signLinkToken(link: DigestLink, now: number = Date.now()): string {
+  const ttlHours = Number(process.env.DIGEST_LINK_TTL_HOURS) || DEFAULT_LINK_TTL_HOURS;
+  const payload = Buffer.from(JSON.stringify({ ...link, exp: now + ttlHours * 60 * 60 * 1000 })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Checks the signature before looking at the payload, then the expiry.
+ * Throws LinkTokenError for tampered, malformed or expired tokens.
+ */
+export function verifyLinkToken(token: string, now: number = Date.now()): DigestLink {
+  const [payload, signature, ...extra] = token.split('.');
+  if (!payload || !signature || extra.length > 0) throw new LinkTokenError('invalid');
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new LinkTokenError('invalid');
+  }
+
+  let link: SignedLink;
+  try {
+    link = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    throw new LinkTokenError('invalid');
+  }
+  if (typeof link.exp !== 'number' || link.exp < now) throw new LinkTokenError('expired');
+
+  const { exp, ...digestLink } = link;
+  return digestLink;
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import type { GroundingMetadata, LlmProvider, LlmRequest, LlmResponse } from "./types";
+
+/**
+ * A recorded model response. `match` is a substring of the prompt that selects
+ * this entry; entries without `match` are replayed in order for any prompt.
+ */
+export interface FixtureEntry {
+  match?: string;
+  text: string;
+  groundingMetadata?: GroundingMetadata;
+  finishReason?: string;
+}
+
+export interface FixtureFile {
+  responses: FixtureEntry[];
+}
+
+function readFixtureFile(path: string): FixtureFile {
+  if (!fs.existsSync(path)) {
+    return { responses: [] };
+  }
+  return JSON.parse(fs.readFileSync(path, 'utf-8'));
+}
+
+// Streamed replays hand out the recorded text in this many pieces
+const FIXTURE_STREAM_CHUNKS = 20;
+
+/**
+ * Replays recorded responses, including grounding metadata, with no network access.
+ * Each entry is used once while unused matches remain, then the first match is reused.
+ */
+export function createFixtureProvider(fixture: FixtureFile | string): LlmProvider {
+  const { responses } = typeof fixture === 'string' ? readFixtureFile(fixture) : fixture;
+  const used = new Set<number>();
+
+  return {
+    name: 'fixture',
+    model: 'fixture',
+    async generate({ prompt, onText, signal }: LlmRequest): Promise<LlmResponse> {
+      signal?.throwIfAborted();
+      const candidates = responses
+        .map((entry, index) => ({ entry, index }))
+        .filter(({ entry }) => !entry.match || prompt.includes(entry.match));
+
+      const next = candidates.find(({ index }) => !used.has(index)) || candidates[0];
+      if (!next) {
+        throw new Error(`No recorded fixture response matches prompt: ${prompt.trim().slice(0, 80)}...`);
+      }
+
+      used.add(next.index);
+      const { text, groundingMetadata, finishReason } = next.entry;
+      if (onText) {
+        const size = Math.max(1, Math.ceil(text.length / FIXTURE_STREAM_CHUNKS));
+        for (let end = size; end < text.length + size; end += size) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+          signal?.throwIfAborted();
+          onText(text.slice(0, end));
+        }
+      }
+      return { text, groundingMetadata, finishReason };
+    },
+  };
+}
+
+/**
+ * Wraps a live provider and appends every response to a fixture file so the
+ * same run can later be replayed offline with createFixtureProvider
+ */
+export function withFixtureRecording(provider: LlmProvider, path: string): LlmProvider {
+  return {
+    ...provider,
+    async generate(request: LlmRequest): Promise<LlmResponse> {
+      const response = await provider.generate(request);
+      const fixture = readFixtureFile(path);
+      fixture.responses.push({ match: request.prompt.trim(), ...response });
+      fs.writeFileSync(path, JSON.stringify(fixture, null, 2));
+      return response;
+    },
+  };
+}
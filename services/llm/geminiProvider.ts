@@ -0,0 +1,64 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LlmProvider, LlmRequest, LlmResponse } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Gemini backend. The client is created lazily so a missing key surfaces as a
+ * request error instead of crashing the serverless function on import.
+ */
+export function createGeminiProvider(apiKey: string | undefined, model: string = DEFAULT_GEMINI_MODEL): LlmProvider {
+  let ai: GoogleGenAI | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) {
+      throw new Error("API_KEY environment variable not set");
+    }
+    if (!ai) {
+      ai = new GoogleGenAI({ apiKey });
+    }
+    return ai;
+  };
+
+  return {
+    name: 'gemini',
+    model,
+    async generate({ prompt, useSearch, responseSchema, onText, signal }: LlmRequest): Promise<LlmResponse> {
+      const params = {
+        model,
+        contents: prompt,
+        config: {
+          abortSignal: signal,
+          // responseMimeType cannot be combined with tools
+          ...(useSearch ? { tools: [{ googleSearch: {} }] } : {}),
+          ...(responseSchema && !useSearch ? { responseMimeType: 'application/json', responseSchema } : {}),
+        },
+      };
+
+      if (!onText) {
+        const response = await getClient().models.generateContent(params);
+        const candidate = response.candidates?.[0];
+        return {
+          text: response.text || '',
+          groundingMetadata: candidate?.groundingMetadata,
+          // A blocked prompt has no candidate, only the block reason
+          finishReason: candidate?.finishReason || response.promptFeedback?.blockReason,
+        };
+      }
+
+      // Grounding metadata and the finish reason arrive with the last chunks
+      const result: LlmResponse = { text: '' };
+      for await (const chunk of await getClient().models.generateContentStream(params)) {
+        const candidate = chunk.candidates?.[0];
+        if (candidate?.groundingMetadata) result.groundingMetadata = candidate.groundingMetadata;
+        const finishReason = candidate?.finishReason || chunk.promptFeedback?.blockReason;
+        if (finishReason) result.finishReason = finishReason;
+        if (chunk.text) {
+          result.text += chunk.text;
+          onText(result.text);
+        }
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import { createFixtureProvider, withFixtureRecording } from "./fixtureProvider";
+import { DEFAULT_GEMINI_MODEL, createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { DEFAULT_LLM_TIMEOUT_MS, withRetryPolicy } from "./retryPolicy";
+import { retryPolicyFromEnv } from "../retry";
+import type { LlmProvider } from "./types";
+
+export type { GroundingMetadata, LlmProvider, LlmRequest, LlmResponse } from "./types";
+export { createFixtureProvider, withFixtureRecording } from "./fixtureProvider";
+export type { FixtureEntry, FixtureFile } from "./fixtureProvider";
+export { createGeminiProvider } from "./geminiProvider";
+export { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+export { withRetryPolicy } from "./retryPolicy";
+
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Builds the provider selected by LLM_PROVIDER ('gemini' | 'openai' | 'fixture').
+ * Set LLM_FIXTURE_RECORD=true to record live responses into LLM_FIXTURE_PATH.
+ * Every provider retries per RETRY_* and times out each attempt after LLM_TIMEOUT_MS.
+ */
+function createProviderFromEnv(): LlmProvider {
+  const env = process.env;
+  const fixturePath = env.LLM_FIXTURE_PATH || 'fixtures/llm/sample.json';
+
+  const retryOptions = { policy: retryPolicyFromEnv(env), timeoutMs: Number(env.LLM_TIMEOUT_MS) || DEFAULT_LLM_TIMEOUT_MS };
+
+  let provider: LlmProvider;
+  switch (env.LLM_PROVIDER) {
+    case 'fixture':
+      return withRetryPolicy(createFixtureProvider(fixturePath), retryOptions);
+    case 'openai':
+      if (!env.LLM_BASE_URL) {
+        throw new Error("LLM_BASE_URL environment variable not set");
+      }
+      provider = createOpenAiCompatibleProvider({
+        baseUrl: env.LLM_BASE_URL,
+        model: env.LLM_MODEL || 'llama3.1',
+        apiKey: env.LLM_API_KEY,
+      });
+      break;
+    case 'gemini':
+    default:
+      provider = createGeminiProvider(env.API_KEY || env.GEMINI_API_KEY, env.LLM_MODEL || DEFAULT_GEMINI_MODEL);
+      break;
+  }
+
+  return withRetryPolicy(
+    env.LLM_FIXTURE_RECORD === 'true' ? withFixtureRecording(provider, fixturePath) : provider,
+    retryOptions
+  );
+}
+
+/**
+ * Returns the process-wide provider, creating it from the environment on first use
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+}
+
+/**
+ * Overrides the process-wide provider, e.g. with a fixture provider for offline runs
+ */
+export function setLlmProvider(provider: LlmProvider | null): void {
+  activeProvider = provider;
+}
@@ -0,0 +1,90 @@
+import { HttpStatusError, parseRetryAfter } from "../retry";
+import type { LlmProvider, LlmRequest, LlmResponse } from "./types";
+
+export interface OpenAiCompatibleConfig {
+  /** Base URL including the version prefix, e.g. http://localhost:11434/v1 */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+/**
+ * Reads a streamed chat completion ("data: {...}" server-sent events, ending with "data: [DONE]")
+ */
+async function readEventStream(body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<LlmResponse> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const result: LlmResponse = { text: '' };
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      const data = line.match(/^data:\s*(.*)$/)?.[1];
+      if (!data || data === '[DONE]') continue;
+      const choice = JSON.parse(data).choices?.[0];
+      if (choice?.finish_reason) result.finishReason = choice.finish_reason;
+      if (choice?.delta?.content) {
+        result.text += choice.delta.content;
+        onText(result.text);
+      }
+    }
+    if (done) return result;
+  }
+}
+
+/**
+ * Backend for any server implementing the OpenAI chat completions API
+ * (Ollama, LM Studio, vLLM, llama.cpp). These models have no web search,
+ * so responses never carry grounding metadata.
+ */
+export function createOpenAiCompatibleProvider({ baseUrl, model, apiKey }: OpenAiCompatibleConfig): LlmProvider {
+  const endpoint = `${baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai-compatible',
+    model,
+    async generate({ prompt, responseSchema, onText, signal }: LlmRequest): Promise<LlmResponse> {
+      const messages = responseSchema
+        ? [
+            { role: 'system', content: `Respond only with a JSON object matching this schema: ${JSON.stringify(responseSchema)}` },
+            { role: 'user', content: prompt },
+          ]
+        : [{ role: 'user', content: prompt }];
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          ...(responseSchema ? { response_format: { type: 'json_object' } } : {}),
+          ...(onText ? { stream: true } : {}),
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw new HttpStatusError('LLM', response.status, response.statusText, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+
+      if (onText && response.body) {
+        return readEventStream(response.body, onText);
+      }
+
+      const data = await response.json();
+      const choice = data.choices?.[0];
+      return {
+        text: choice?.message?.content || '',
+        finishReason: choice?.finish_reason,
+      };
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { DEFAULT_RETRY_POLICY, withRetry, type RetryPolicy } from "../retry";
+import type { LlmProvider, LlmRequest, LlmResponse } from "./types";
+
+// Search-grounded posts regularly take a minute or more; a timed-out attempt still
+// leaves room for a retry inside the routes' 300 s maxDuration
+export const DEFAULT_LLM_TIMEOUT_MS = 120000;
+
+/**
+ * Wraps a provider so every request retries throttling and temporary errors with
+ * backoff and gives up on an attempt after `timeoutMs` (or the request's own limit)
+ */
+export function withRetryPolicy(
+  provider: LlmProvider,
+  { policy = DEFAULT_RETRY_POLICY, timeoutMs = DEFAULT_LLM_TIMEOUT_MS }: { policy?: RetryPolicy; timeoutMs?: number } = {}
+): LlmProvider {
+  return {
+    ...provider,
+    generate(request: LlmRequest): Promise<LlmResponse> {
+      return withRetry(signal => provider.generate({ ...request, signal }), {
+        label: provider.name,
+        policy,
+        timeoutMs: request.timeoutMs ?? timeoutMs,
+        signal: request.signal,
+      });
+    },
+  };
+}
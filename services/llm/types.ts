@@ -0,0 +1,35 @@
+import type { GroundingMetadata, Schema } from "@google/genai";
+
+export type { GroundingMetadata };
+
+export interface LlmRequest {
+  prompt: string;
+  /** Enables web search grounding (Google Search for Gemini). Providers without search ignore it. */
+  useSearch?: boolean;
+  /** Requests a JSON response matching this schema */
+  responseSchema?: Schema;
+  /**
+   * Streams the response: called with the text accumulated so far each time more
+   * arrives. Providers that cannot stream call it once with the full text.
+   */
+  onText?: (text: string) => void;
+  /** Cancels the request */
+  signal?: AbortSignal;
+  /** Overrides the provider's default limit for each attempt of this request */
+  timeoutMs?: number;
+}
+
+export interface LlmResponse {
+  text: string;
+  groundingMetadata?: GroundingMetadata;
+  finishReason?: string;
+}
+
+/**
+ * Common interface for every text-generation backend used by the app and the cron
+ */
+export interface LlmProvider {
+  name: string;
+  model: string;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+}
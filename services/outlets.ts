@@ -0,0 +1,182 @@
+import fs from 'fs';
+import { splitSourceTitle } from './sources';
+import type { Source } from '../types';
+
+/**
+ * A news outlet as it appears in source titles ("... - 연합뉴스") and the domains it publishes on
+ */
+export interface OutletEntry {
+  name: string;
+  aliases?: string[];
+  domains: string[];
+}
+
+export interface OutletRegistry {
+  outlets: OutletEntry[];
+}
+
+/** A grounding chunk the model searched, as a candidate link for a source */
+export interface SourceCandidate {
+  url: string;
+  /** Usually the site domain (e.g. "yna.co.kr"), sometimes the article title */
+  title: string;
+}
+
+/**
+ * A source title linked to a grounding chunk. The outlet is the registry name,
+ * or the raw name from the title when it is not registered; confidence is 0
+ * when no candidate was linked.
+ */
+export interface SourceMatch extends Source {
+  chunkIndex?: number;
+}
+
+// Below this a candidate is not linked at all
+const MIN_MATCH_CONFIDENCE = 0.25;
+
+let registry: OutletRegistry | null = null;
+
+/**
+ * Loads the outlet registry from OUTLET_REGISTRY_PATH (default config/outlets.json).
+ * A missing file leaves matching to title similarity alone.
+ */
+export function getOutletRegistry(): OutletRegistry {
+  if (!registry) {
+    const registryPath = process.env.OUTLET_REGISTRY_PATH || 'config/outlets.json';
+    try {
+      const parsed: OutletRegistry = JSON.parse(fs.readFileSync(registryPath, 'utf-8'));
+      registry = { outlets: parsed.outlets || [] };
+    } catch (error) {
+      console.warn(`Outlet registry not loaded from ${registryPath}:`, error instanceof Error ? error.message : error);
+      registry = { outlets: [] };
+    }
+  }
+  return registry;
+}
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * Dice coefficient over character bigrams, which tolerates the small wording
+ * differences between a model-written title and the real headline
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = bigrams(normalize(a));
+  const right = bigrams(normalize(b));
+  const total = Array.from(left.values()).reduce((sum, n) => sum + n, 0) + Array.from(right.values()).reduce((sum, n) => sum + n, 0);
+  if (total === 0) return 0;
+
+  let shared = 0;
+  left.forEach((count, gram) => {
+    shared += Math.min(count, right.get(gram) || 0);
+  });
+  return (2 * shared) / total;
+}
+
+const domainMatches = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+/**
+ * Finds the outlet whose domain matches, preferring the most specific domain (biz.chosun.com over chosun.com)
+ */
+export function findOutletByDomain(host: string, outlets: OutletEntry[]): OutletEntry | undefined {
+  const normalizedHost = host.toLowerCase().replace(/^www\./, '');
+  let best: { outlet: OutletEntry; length: number } | undefined;
+  for (const outlet of outlets) {
+    for (const domain of outlet.domains) {
+      if (domainMatches(normalizedHost, domain) && (!best || domain.length > best.length)) {
+        best = { outlet, length: domain.length };
+      }
+    }
+  }
+  return best?.outlet;
+}
+
+export function findOutletByName(name: string, outlets: OutletEntry[]): OutletEntry | undefined {
+  const key = normalize(name);
+  if (!key) return undefined;
+  return outlets.find(outlet => [outlet.name, ...(outlet.aliases || [])].some(alias => normalize(alias) === key));
+}
+
+/**
+ * Scores how likely a candidate is the article a source title refers to.
+ * The outlet domain is the strongest signal; title similarity breaks ties
+ * between articles of the same outlet and carries matches on its own when
+ * the outlet is unknown.
+ */
+function scoreCandidate(
+  headline: string,
+  outlet: OutletEntry | undefined,
+  candidate: SourceCandidate,
+  sameOutletCandidates: number,
+  outlets: OutletEntry[],
+): number {
+  const similarity = titleSimilarity(headline, candidate.title);
+  const candidateOutlet = findOutletByDomain(candidate.title, outlets);
+
+  if (outlet && candidateOutlet) {
+    if (candidateOutlet !== outlet) return 0;
+    // Several articles from the same outlet make the domain alone ambiguous
+    return (sameOutletCandidates > 1 ? 0.55 : 0.8) + 0.2 * similarity;
+  }
+  return 0.9 * similarity;
+}
+
+/**
+ * Links each source title to at most one grounding chunk. Pairs are assigned
+ * best-first, so a strong match is never displaced by a weaker one; titles
+ * without a plausible candidate stay unlinked instead of borrowing a URL by position.
+ */
+export function matchSources(
+  titles: string[],
+  candidates: SourceCandidate[],
+  outlets: OutletEntry[] = getOutletRegistry().outlets,
+): SourceMatch[] {
+  const parsed = titles.map(title => {
+    const { headline, outletName } = splitSourceTitle(title);
+    return { headline, outletName, outlet: findOutletByName(outletName, outlets) };
+  });
+
+  const pairs: { source: number; candidate: number; score: number }[] = [];
+  parsed.forEach(({ headline, outlet }, source) => {
+    const sameOutletCandidates = outlet
+      ? candidates.filter(candidate => findOutletByDomain(candidate.title, outlets) === outlet).length
+      : 0;
+    candidates.forEach((candidate, index) => {
+      if (!candidate.url) return;
+      const score = scoreCandidate(headline, outlet, candidate, sameOutletCandidates, outlets);
+      if (score >= MIN_MATCH_CONFIDENCE) {
+        pairs.push({ source, candidate: index, score });
+      }
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const matches: SourceMatch[] = parsed.map(({ headline, outletName, outlet }) => ({
+    title: headline,
+    outlet: outlet?.name || outletName || undefined,
+    url: '',
+    confidence: 0,
+  }));
+  const usedCandidates = new Set<number>();
+  for (const { source, candidate, score } of pairs) {
+    if (matches[source].url || usedCandidates.has(candidate)) continue;
+    usedCandidates.add(candidate);
+    matches[source] = {
+      ...matches[source],
+      outlet: matches[source].outlet || findOutletByDomain(candidates[candidate].title, outlets)?.name,
+      url: candidates[candidate].url,
+      chunkIndex: candidate,
+      confidence: Math.round(score * 100) / 100,
+    };
+  }
+  return matches;
+}
@@ -0,0 +1,61 @@
+import { getLanguageConfig, scaleLengthTarget } from "./languages";
+import type { Language, LengthTarget } from "../types";
+
+/**
+ * Length check of a post body against its target, in the language's own unit
+ */
+export interface LengthReport {
+  count: number;
+  unit: 'chars' | 'words';
+  /** Target converted to the same unit as count */
+  min: number;
+  max: number;
+  status: 'short' | 'within' | 'long';
+}
+
+export const DEFAULT_LENGTH_TARGET: LengthTarget = { min: 3000, max: 4000 };
+
+const ENTITIES: Record<string, string> = { '&nbsp;': ' ', '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" };
+
+/**
+ * Strips images, citation markers, the references block and all tags, leaving the body text
+ */
+export function extractBodyText(html: string): string {
+  return html
+    .replace(/<figure\b[\s\S]*?<\/figure>/gi, ' ')
+    .replace(/<sup class="citation"[\s\S]*?<\/sup>/gi, '')
+    .replace(/<div class="references-section"[\s\S]*$/i, ' ')
+    .replace(/<\/?(p|h[1-6]|li|ul|ol|blockquote|div|br|table|tr|td|th)\b[^>]*>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, entity => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function measurePostLength(html: string, language: Language = 'ko'): number {
+  const text = extractBodyText(html);
+  if (getLanguageConfig(language).lengthUnit === 'words') {
+    return text ? text.split(' ').length : 0;
+  }
+  return text.length;
+}
+
+export function verifyPostLength(html: string, target: LengthTarget = DEFAULT_LENGTH_TARGET, language: Language = 'ko'): LengthReport {
+  const { min, max } = scaleLengthTarget(target, language);
+  const count = measurePostLength(html, language);
+  return {
+    count,
+    unit: getLanguageConfig(language).lengthUnit,
+    min,
+    max,
+    status: count < min ? 'short' : count > max ? 'long' : 'within',
+  };
+}
+
+/**
+ * Splits a post into the intro and one chunk per <h2> section, so that
+ * joining the chunks gives back the original HTML
+ */
+export function splitByHeading(html: string): string[] {
+  return html.split(/(?=<h2\b)/i).filter(chunk => chunk.length > 0);
+}
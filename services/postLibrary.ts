@@ -0,0 +1,99 @@
+import type { BlogResult, DateRange, Source, Template } from '../types';
+
+/**
+ * A generated post saved in the browser's IndexedDB library
+ */
+export interface LibraryPost extends BlogResult {
+  id: string;
+  keyword: string;
+  dateRange: DateRange;
+  template: Template;
+  imageKeywords: string[];
+  /** Posts saved before sources were structured hold plain titles here; see migrateLegacySources */
+  sources: Source[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type NewLibraryPost = Omit<LibraryPost, 'id' | 'createdAt' | 'updatedAt'>;
+
+const DB_NAME = 'autoblog-library';
+const DB_VERSION = 1;
+const STORE_NAME = 'posts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against the posts store and resolves with its result
+ */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function createId(): string {
+  return crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Returns every saved post, most recently updated first
+ */
+export async function listPosts(): Promise<LibraryPost[]> {
+  const posts = await withStore<LibraryPost[]>('readonly', store => store.getAll());
+  return posts.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getPost(id: string): Promise<LibraryPost | undefined> {
+  return withStore<LibraryPost | undefined>('readonly', store => store.get(id));
+}
+
+export async function addPost(entry: NewLibraryPost): Promise<LibraryPost> {
+  const now = Date.now();
+  const post: LibraryPost = { ...entry, id: createId(), createdAt: now, updatedAt: now };
+  await withStore('readwrite', store => store.put(post));
+  return post;
+}
+
+/**
+ * Applies changes to a saved post and bumps its updatedAt timestamp
+ */
+export async function updatePost(id: string, changes: Partial<NewLibraryPost>): Promise<LibraryPost | undefined> {
+  const existing = await getPost(id);
+  if (!existing) return undefined;
+  const post: LibraryPost = { ...existing, ...changes, id, updatedAt: Date.now() };
+  await withStore('readwrite', store => store.put(post));
+  return post;
+}
+
+export async function duplicatePost(id: string): Promise<LibraryPost | undefined> {
+  const existing = await getPost(id);
+  if (!existing) return undefined;
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...entry } = existing;
+  return addPost({ ...entry, title: `${existing.title} (사본)` });
+}
+
+export async function deletePost(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
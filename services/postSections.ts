@@ -0,0 +1,105 @@
+/**
+ * Browser-side helpers for splitting post HTML into <h2> sections and splicing
+ * a regenerated section back in without losing injected images or references
+ */
+
+export type PostSegmentKind = 'intro' | 'section' | 'references';
+
+export interface PostSegment {
+  kind: PostSegmentKind;
+  html: string;
+  heading?: string;
+}
+
+const parseHtml = (html: string): HTMLDivElement => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+};
+
+const serializeNodes = (nodes: Node[]): string => {
+  const container = document.createElement('div');
+  nodes.forEach(node => container.appendChild(node.cloneNode(true)));
+  return container.innerHTML;
+};
+
+const isElement = (node: Node): node is Element => node.nodeType === Node.ELEMENT_NODE;
+
+/**
+ * Splits a post into top-level segments: the intro before the first <h2>, one
+ * segment per <h2> section, and the references block
+ */
+export function splitPostSections(html: string): PostSegment[] {
+  const segments: PostSegment[] = [];
+  let current: { kind: PostSegmentKind; heading?: string; nodes: Node[] } = { kind: 'intro', nodes: [] };
+
+  const flush = () => {
+    const segmentHtml = serializeNodes(current.nodes);
+    if (segmentHtml.trim()) {
+      segments.push({ kind: current.kind, heading: current.heading, html: segmentHtml });
+    }
+  };
+
+  for (const node of Array.from(parseHtml(html).childNodes)) {
+    if (isElement(node) && node.tagName === 'H2') {
+      flush();
+      current = { kind: 'section', heading: node.textContent?.trim() || '', nodes: [node] };
+    } else if (isElement(node) && node.classList.contains('references-section')) {
+      flush();
+      current = { kind: 'references', nodes: [node] };
+      flush();
+      current = { kind: 'intro', nodes: [] };
+    } else {
+      current.nodes.push(node);
+    }
+  }
+  flush();
+
+  return segments;
+}
+
+export function joinPostSections(segments: PostSegment[]): string {
+  return segments.map(segment => segment.html).join('');
+}
+
+/**
+ * Removes injected images and the references block, leaving only the text the model wrote
+ */
+export function stripNonTextBlocks(html: string): string {
+  const container = parseHtml(html);
+  container.querySelectorAll('figure, .references-section').forEach(element => element.remove());
+  return container.innerHTML;
+}
+
+/**
+ * Keeps each <figure> of the old section at the same position, counted in
+ * text blocks, inside the new section
+ */
+export function mergeSectionFigures(oldSection: string, newSection: string): string {
+  const oldContainer = parseHtml(oldSection);
+  const newContainer = parseHtml(newSection);
+  newContainer.querySelectorAll('figure').forEach(element => element.remove());
+
+  const placements: { figure: Element; blocksBefore: number }[] = [];
+  let blocksBefore = 0;
+  for (const element of Array.from(oldContainer.children)) {
+    if (element.tagName === 'FIGURE') {
+      placements.push({ figure: element, blocksBefore });
+    } else {
+      blocksBefore++;
+    }
+  }
+
+  // Insert in reverse so figures sharing an anchor keep their original order
+  const newBlocks = Array.from(newContainer.children);
+  for (const { figure, blocksBefore } of placements.reverse()) {
+    const anchor = newBlocks[Math.min(blocksBefore, newBlocks.length) - 1];
+    if (anchor) {
+      anchor.after(figure);
+    } else {
+      newContainer.prepend(figure);
+    }
+  }
+
+  return newContainer.innerHTML;
+}
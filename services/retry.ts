@@ -0,0 +1,177 @@
+/**
+ * How often and how patiently a failed external call is retried
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt; 0 disables retrying */
+  retries: number;
+  baseDelayMs: number;
+  /** Cap for the backoff delay; a Retry-After longer than this is not waited for */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Reads RETRY_MAX_RETRIES, RETRY_BASE_DELAY_MS and RETRY_MAX_DELAY_MS over the defaults
+ */
+export function retryPolicyFromEnv(env: Record<string, string | undefined> = process.env): RetryPolicy {
+  const read = (name: string, fallback: number) => {
+    const value = Number(env[name]);
+    return env[name] !== undefined && env[name] !== '' && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+  return {
+    retries: read('RETRY_MAX_RETRIES', DEFAULT_RETRY_POLICY.retries),
+    baseDelayMs: read('RETRY_BASE_DELAY_MS', DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: read('RETRY_MAX_DELAY_MS', DEFAULT_RETRY_POLICY.maxDelayMs),
+  };
+}
+
+/**
+ * A non-2xx response from an external API, with the server's Retry-After if it sent one
+ */
+export class HttpStatusError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(service: string, status: number, statusText: string, retryAfterMs?: number) {
+    super(`${service} API Error: ${status} ${statusText}`);
+    this.name = 'HttpStatusError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class TimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(label: string, timeoutMs: number) {
+    super(`${label} 응답이 ${Math.ceil(timeoutMs / 1000)}초 안에 오지 않았습니다.`);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Parses a Retry-After header, either delay seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT',
+  'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/**
+ * Whether fetch failed to reach the server at all. Node's fetch rejects with
+ * TypeError("fetch failed") and the socket error as `cause`; any other TypeError
+ * is a bug in our code and must not be retried or reported as a connection problem.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof TypeError)) return false;
+  if (error.message === 'fetch failed') return true;
+  const code = (error.cause as { code?: unknown } | undefined)?.code;
+  return typeof code === 'string' && NETWORK_ERROR_CODES.has(code);
+}
+
+/**
+ * Timeouts, network failures and throttling or temporary server errors are worth
+ * another attempt; client errors such as a bad key are not
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof TimeoutError) return true;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return RETRYABLE_STATUSES.has(status);
+  return isNetworkError(error);
+}
+
+/**
+ * Server-requested wait before retrying: HttpStatusError's Retry-After, or the
+ * retryDelay Gemini reports in the RetryInfo of a 429 error body
+ */
+function requestedDelay(error: unknown): number | undefined {
+  if (error instanceof HttpStatusError) return error.retryAfterMs;
+  const match = error instanceof Error ? error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/) : null;
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^attempt, capped
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  return Math.round(Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface RetryOptions {
+  /** Names the call in logs and timeout messages, e.g. "Gemini" */
+  label: string;
+  policy?: RetryPolicy;
+  /** Limit for each attempt; no limit when omitted */
+  timeoutMs?: number;
+  /** Aborts the current attempt and any further retries */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs an operation, retrying transient failures with backoff. Each attempt gets
+ * its own signal that aborts on the caller's signal or when the attempt times out.
+ */
+export async function withRetry<T>(operation: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { label, policy = DEFAULT_RETRY_POLICY, timeoutMs, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal!.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let timedOut = false;
+    const timer = timeoutMs ? setTimeout(() => {
+      timedOut = true;
+      controller.abort(new TimeoutError(label, timeoutMs));
+    }, timeoutMs) : undefined;
+
+    try {
+      return await operation(controller.signal);
+    } catch (caught) {
+      if (signal?.aborted) throw caught;
+      const error = timedOut ? new TimeoutError(label, timeoutMs!) : caught;
+      if (attempt >= policy.retries || !isRetryable(error)) throw error;
+
+      const requested = requestedDelay(error);
+      if (requested !== undefined && requested > policy.maxDelayMs) throw error;
+      const delay = requested ?? backoffDelay(attempt, policy);
+      console.warn(`${label} call failed (${error instanceof Error ? error.message : error}), retrying in ${delay}ms`);
+      await sleep(delay, signal);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
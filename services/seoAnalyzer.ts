@@ -0,0 +1,224 @@
+import { getLanguageConfig } from './languages';
+import { measurePostLength } from './postLength';
+import type { Language } from '../types';
+
+/**
+ * Browser-side SEO checks for a generated post. Each check reports a status
+ * and, when it does not pass, a concrete fix for the editor.
+ */
+
+export type SeoCheckStatus = 'pass' | 'warn' | 'fail';
+
+export type SeoCheckId =
+  | 'keywordInTitle'
+  | 'keywordInIntro'
+  | 'keywordInHeadings'
+  | 'keywordDensity'
+  | 'titleLength'
+  | 'headingHierarchy'
+  | 'paragraphLength'
+  | 'imageAlt'
+  | 'outboundLinks'
+  | 'metaDescription';
+
+export interface SeoCheck {
+  id: SeoCheckId;
+  label: string;
+  status: SeoCheckStatus;
+  detail: string;
+  fix?: string;
+}
+
+export interface SeoReport {
+  /** 0-100, a pass counts fully and a warning counts half */
+  score: number;
+  checks: SeoCheck[];
+  metaDescription: string;
+  slug: string;
+}
+
+interface LanguageLimits {
+  title: { min: number; max: number };
+  metaDescription: { min: number; max: number };
+  /** Longest comfortable paragraph, in the language's length unit */
+  paragraph: number;
+}
+
+const LIMITS: Record<Language, LanguageLimits> = {
+  ko: { title: { min: 15, max: 40 }, metaDescription: { min: 70, max: 120 }, paragraph: 300 },
+  ja: { title: { min: 15, max: 40 }, metaDescription: { min: 70, max: 120 }, paragraph: 300 },
+  en: { title: { min: 30, max: 60 }, metaDescription: { min: 120, max: 160 }, paragraph: 120 },
+};
+
+// Keyword share of the body text considered natural, in percent
+const DENSITY_RANGE = { min: 0.5, max: 2.5 };
+
+const parseHtml = (html: string): HTMLDivElement => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+};
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const containsKeyword = (text: string, keyword: string) => {
+  const haystack = normalize(text);
+  const needle = normalize(keyword);
+  // Korean keywords are often written without the space ("AI 반도체" / "AI반도체")
+  return !!needle && (haystack.includes(needle) || haystack.replace(/ /g, '').includes(needle.replace(/ /g, '')));
+};
+
+const countOccurrences = (text: string, keyword: string) => {
+  const needle = normalize(keyword);
+  if (!needle) return 0;
+  return normalize(text).split(needle).length - 1;
+};
+
+/**
+ * Cuts text at a sentence or word boundary so it fits within maxLength characters
+ */
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength - 1);
+  const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('다. '), cut.lastIndexOf('。'));
+  if (sentenceEnd > maxLength * 0.6) return cut.slice(0, sentenceEnd + 1).trim();
+  const space = cut.lastIndexOf(' ');
+  return `${(space > maxLength * 0.6 ? cut.slice(0, space) : cut).trim()}…`;
+}
+
+/**
+ * Builds a meta description from the opening paragraphs, leading with the keyword when it is missing
+ */
+export function buildMetaDescription(post: string, keyword: string, language: Language = 'ko'): string {
+  const { max } = LIMITS[language].metaDescription;
+  const container = parseHtml(post);
+  container.querySelectorAll('figure, .references-section, sup.citation').forEach(element => element.remove());
+  const text = Array.from(container.querySelectorAll('p'))
+    .map(p => p.textContent?.replace(/\s+/g, ' ').trim() || '')
+    .filter(Boolean)
+    .join(' ');
+
+  const description = keyword && !containsKeyword(text.slice(0, max), keyword) ? `${keyword}: ${text}` : text;
+  return truncate(description, max);
+}
+
+/**
+ * Builds a URL slug from the title, keeping Korean and Japanese letters
+ */
+export function buildSlug(title: string, maxLength: number = 60): string {
+  const slug = title
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
+    .trim()
+    .replace(/[\s-]+/g, '-');
+  return slug.length <= maxLength ? slug : slug.slice(0, maxLength).replace(/-[^-]*$/, '') || slug.slice(0, maxLength);
+}
+
+export function analyzeSeo(title: string, post: string, keyword: string, language: Language = 'ko'): SeoReport {
+  const limits = LIMITS[language];
+  const unitLabel = getLanguageConfig(language).lengthUnitLabel;
+  const container = parseHtml(post);
+  const references = container.querySelector('.references-section');
+  references?.remove();
+
+  const body = parseHtml(container.innerHTML);
+  body.querySelectorAll('figure, sup.citation').forEach(element => element.remove());
+  const bodyText = body.textContent?.replace(/\s+/g, ' ').trim() || '';
+  const paragraphs = Array.from(body.querySelectorAll('p')).filter(p => p.textContent?.trim());
+  const h2s = Array.from(body.querySelectorAll('h2'));
+  const checks: SeoCheck[] = [];
+
+  // Keyword placement
+  checks.push(containsKeyword(title, keyword)
+    ? { id: 'keywordInTitle', label: '제목에 키워드', status: 'pass', detail: '제목에 키워드가 포함되어 있습니다.' }
+    : { id: 'keywordInTitle', label: '제목에 키워드', status: 'fail', detail: '제목에 키워드가 없습니다.', fix: `제목 앞부분에 "${keyword}"를 넣으세요.` });
+
+  const intro = paragraphs[0]?.textContent || '';
+  checks.push(containsKeyword(intro, keyword)
+    ? { id: 'keywordInIntro', label: '첫 문단에 키워드', status: 'pass', detail: '첫 문단에 키워드가 포함되어 있습니다.' }
+    : { id: 'keywordInIntro', label: '첫 문단에 키워드', status: 'fail', detail: '첫 문단에 키워드가 없습니다.', fix: `첫 문단의 첫 문장에 "${keyword}"를 자연스럽게 넣으세요.` });
+
+  const headingsWithKeyword = h2s.filter(h2 => containsKeyword(h2.textContent || '', keyword)).length;
+  checks.push(headingsWithKeyword > 0
+    ? { id: 'keywordInHeadings', label: '소제목(H2)에 키워드', status: 'pass', detail: `소제목 ${h2s.length}개 중 ${headingsWithKeyword}개에 키워드가 있습니다.` }
+    : { id: 'keywordInHeadings', label: '소제목(H2)에 키워드', status: 'warn', detail: `소제목 ${h2s.length}개 중 키워드가 들어간 것이 없습니다.`, fix: '핵심 소제목 1~2개에 키워드나 그 변형을 넣으세요.' });
+
+  // Keyword density, measured as the share of body characters taken by the keyword
+  const occurrences = countOccurrences(bodyText, keyword);
+  const density = bodyText ? (occurrences * normalize(keyword).length / normalize(bodyText).length) * 100 : 0;
+  const densityDetail = `키워드 ${occurrences}회, 밀도 ${density.toFixed(1)}% (권장 ${DENSITY_RANGE.min}~${DENSITY_RANGE.max}%)`;
+  checks.push(density < DENSITY_RANGE.min
+    ? { id: 'keywordDensity', label: '키워드 밀도', status: 'warn', detail: densityDetail, fix: '본문에서 키워드를 몇 번 더 자연스럽게 언급하세요.' }
+    : density > DENSITY_RANGE.max
+      ? { id: 'keywordDensity', label: '키워드 밀도', status: 'warn', detail: densityDetail, fix: '키워드 반복을 줄이고 동의어나 관련어로 바꾸세요.' }
+      : { id: 'keywordDensity', label: '키워드 밀도', status: 'pass', detail: densityDetail });
+
+  // Title length in characters, as search results truncate by width
+  const titleLength = title.trim().length;
+  const titleDetail = `${titleLength}자 (권장 ${limits.title.min}~${limits.title.max}자)`;
+  checks.push(titleLength > limits.title.max
+    ? { id: 'titleLength', label: '제목 길이', status: 'warn', detail: titleDetail, fix: '검색 결과에서 잘리지 않도록 제목을 줄이세요.' }
+    : titleLength < limits.title.min
+      ? { id: 'titleLength', label: '제목 길이', status: 'warn', detail: titleDetail, fix: '제목에 구체적인 내용이나 수치를 더해 길이를 늘리세요.' }
+      : { id: 'titleLength', label: '제목 길이', status: 'pass', detail: titleDetail });
+
+  // Heading hierarchy: the post title is the only <h1>, and levels never skip
+  const hierarchyProblems: string[] = [];
+  const headings = Array.from(body.querySelectorAll('h1, h2, h3, h4, h5, h6'));
+  if (headings.some(heading => heading.tagName === 'H1')) hierarchyProblems.push('본문에 H1이 있습니다');
+  let previousLevel = 1;
+  for (const heading of headings) {
+    const level = Number(heading.tagName[1]);
+    if (level > previousLevel + 1) {
+      hierarchyProblems.push(`H${previousLevel} 다음에 H${level}이 바로 나옵니다`);
+      break;
+    }
+    previousLevel = level;
+  }
+  if (h2s.length < 2) hierarchyProblems.push(`H2가 ${h2s.length}개뿐입니다`);
+  checks.push(hierarchyProblems.length === 0
+    ? { id: 'headingHierarchy', label: '제목 구조', status: 'pass', detail: `H2 ${h2s.length}개, 단계가 올바릅니다.` }
+    : { id: 'headingHierarchy', label: '제목 구조', status: 'warn', detail: hierarchyProblems.join(', '), fix: 'H1은 글 제목에만 쓰고, H2 → H3 순서로 단계를 건너뛰지 마세요.' });
+
+  // Paragraph lengths
+  const longParagraphs = paragraphs.filter(p => measurePostLength(p.outerHTML, language) > limits.paragraph).length;
+  checks.push(longParagraphs === 0
+    ? { id: 'paragraphLength', label: '문단 길이', status: 'pass', detail: `모든 문단이 ${limits.paragraph}${unitLabel} 이하입니다.` }
+    : { id: 'paragraphLength', label: '문단 길이', status: 'warn', detail: `${limits.paragraph}${unitLabel}를 넘는 문단이 ${longParagraphs}개 있습니다.`, fix: '긴 문단을 2~3개로 나누거나 목록으로 바꾸세요.' });
+
+  // Image alt coverage
+  const images = Array.from(container.querySelectorAll('img'));
+  const missingAlt = images.filter(img => !img.getAttribute('alt')?.trim()).length;
+  checks.push(images.length === 0
+    ? { id: 'imageAlt', label: '이미지 대체 텍스트', status: 'warn', detail: '이미지가 없습니다.', fix: '본문에 관련 이미지를 1개 이상 넣으세요.' }
+    : missingAlt > 0
+      ? { id: 'imageAlt', label: '이미지 대체 텍스트', status: 'fail', detail: `이미지 ${images.length}개 중 ${missingAlt}개에 alt가 없습니다.`, fix: '모든 이미지에 내용을 설명하는 alt 텍스트를 넣으세요.' }
+      : { id: 'imageAlt', label: '이미지 대체 텍스트', status: 'pass', detail: `이미지 ${images.length}개 모두 alt가 있습니다.` });
+
+  // Outbound links from the references section
+  const outboundLinks = references
+    ? Array.from(references.querySelectorAll('a[href]')).filter(a => /^https?:\/\//.test(a.getAttribute('href') || '')).length
+    : 0;
+  checks.push(outboundLinks >= 3
+    ? { id: 'outboundLinks', label: '외부 링크', status: 'pass', detail: `참고 자료 링크 ${outboundLinks}개` }
+    : outboundLinks > 0
+      ? { id: 'outboundLinks', label: '외부 링크', status: 'warn', detail: `참고 자료 링크 ${outboundLinks}개`, fix: '신뢰할 수 있는 출처 링크를 3개 이상 유지하세요.' }
+      : { id: 'outboundLinks', label: '외부 링크', status: 'fail', detail: '참고 자료 링크가 없습니다.', fix: '참고한 기사 링크를 참고 자료에 추가하세요.' });
+
+  const metaDescription = buildMetaDescription(post, keyword, language);
+  const metaDetail = `${metaDescription.length}자 (권장 ${limits.metaDescription.min}~${limits.metaDescription.max}자)`;
+  checks.push(metaDescription.length < limits.metaDescription.min
+    ? { id: 'metaDescription', label: '메타 설명', status: 'warn', detail: metaDetail, fix: '첫 문단을 보강하거나 메타 설명을 직접 다듬으세요.' }
+    : { id: 'metaDescription', label: '메타 설명', status: 'pass', detail: metaDetail });
+
+  const points = checks.reduce((sum, check) => sum + (check.status === 'pass' ? 1 : check.status === 'warn' ? 0.5 : 0), 0);
+
+  return {
+    score: Math.round((points / checks.length) * 100),
+    checks,
+    metaDescription,
+    slug: buildSlug(title),
+  };
+}
@@ -0,0 +1,47 @@
+import type { WordPressSiteProfile } from '../types';
+
+const STORAGE_KEY = 'wordpressSites';
+const PUBLISH_KEY_STORAGE_KEY = 'publishKey';
+
+/**
+ * Loads saved WordPress site profiles from localStorage, ignoring corrupt data
+ */
+export function loadSiteProfiles(): WordPressSiteProfile[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.error('Failed to load WordPress site profiles:', err);
+    return [];
+  }
+}
+
+export function saveSiteProfiles(profiles: WordPressSiteProfile[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function createEmptySiteProfile(): WordPressSiteProfile {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID ? crypto.randomUUID() : `${now}-${Math.random().toString(36).slice(2)}`,
+    name: '새 사이트',
+    siteUrl: 'https://',
+    username: '',
+    applicationPassword: '',
+    defaultStatus: 'draft',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * The deployment's PUBLISH_SECRET as entered by the user; shared by all site profiles
+ */
+export function loadPublishKey(): string {
+  return localStorage.getItem(PUBLISH_KEY_STORAGE_KEY) || '';
+}
+
+export function savePublishKey(key: string): void {
+  localStorage.setItem(PUBLISH_KEY_STORAGE_KEY, key);
+}
@@ -0,0 +1,124 @@
+import { renumberCitations } from "./citations";
+import { escapeHtml } from "./html";
+import { getLanguageConfig } from "./languages";
+import type { CitationStyle, Language, Source } from "../types";
+
+/**
+ * Rendering and editing of a post's structured source list. The list is kept
+ * apart from the post body and rendered per output format, so exporters and
+ * the editor never have to parse a pre-rendered references block.
+ */
+
+export type SourceMarkup = 'html' | 'markdown' | 'text';
+
+export const DEFAULT_CITATION_STYLE: CitationStyle = 'numbered';
+
+/** Links below this confidence are flagged for the editor to check */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export const isLowConfidenceSource = (source: Source) => !source.url || source.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+/**
+ * Splits a model-written "Headline - Outlet" title into its parts
+ */
+export function splitSourceTitle(title: string): { headline: string; outletName: string } {
+  const match = title.match(/^(.*\S)\s*[-–—|]\s*([^-–—|]+)$/);
+  return match ? { headline: match[1].trim(), outletName: match[2].trim() } : { headline: title.trim(), outletName: '' };
+}
+
+export function formatAccessDate(isoDate: string, language: Language = 'ko'): string {
+  const date = new Date(isoDate);
+  if (isNaN(date.getTime())) return isoDate;
+  return new Intl.DateTimeFormat(getLanguageConfig(language).htmlLang, { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }).format(date);
+}
+
+/**
+ * Formats one source entry, without its list number
+ */
+export function formatSource(source: Source, style: CitationStyle, language: Language = 'ko', markup: SourceMarkup = 'html'): string {
+  const text = (value: string) => (markup === 'html' ? escapeHtml(value) : value);
+  const link = (label: string, url: string) => {
+    if (markup === 'html') return `<a href="${escapeHtml(url)}" target="_blank" rel="noopener noreferrer" style="color: #2563eb; text-decoration: none;">${label}</a>`;
+    if (markup === 'markdown') return label === url ? `<${url}>` : `[${label}](${url})`;
+    return label === url ? url : `${label} (${url})`;
+  };
+
+  if (style === 'apa') {
+    const parts = [`${text(source.title.replace(/[.。]$/, ''))}.`, '(n.d.).'];
+    if (source.outlet) {
+      const outlet = text(source.outlet);
+      parts.push(`${markup === 'html' ? `<em>${outlet}</em>` : markup === 'markdown' ? `*${outlet}*` : outlet}.`);
+    }
+    if (source.url) {
+      const url = link(markup === 'html' ? escapeHtml(source.url) : source.url, source.url);
+      parts.push(source.accessedAt ? getLanguageConfig(language).describeRetrieval(formatAccessDate(source.accessedAt, language), url) : url);
+    }
+    return parts.join(' ');
+  }
+
+  const label = text(source.outlet ? `${source.title} - ${source.outlet}` : source.title);
+  return source.url ? link(label, source.url) : label;
+}
+
+/**
+ * Renders the references block appended to the post in HTML output. Entries
+ * carry ref-N ids so the inline citation markers can link to them.
+ */
+export function renderSourcesHtml(sources: Source[], style: CitationStyle = DEFAULT_CITATION_STYLE, language: Language = 'ko'): string {
+  if (sources.length === 0) return '';
+
+  const items = sources.map((source, index) => {
+    const number = index + 1;
+    const itemStyle = style === 'apa'
+      ? 'margin-bottom: 0.8em; padding-left: 2em; text-indent: -2em;'
+      : `margin-bottom: 0.8em;${source.url ? '' : ' color: #6b7280;'}`;
+    const prefix = style === 'numbered' ? `[${number}] ` : '';
+    return `<li id="ref-${number}" style="${itemStyle}">${prefix}${formatSource(source, style, language, 'html')}</li>`;
+  });
+
+  return '<div class="references-section" style="margin-top: 3em; padding-top: 2em; border-top: 1px solid #e5e7eb;">'
+    + `<h2 style="font-size: 1.25em; font-weight: bold; color: #374151; margin-bottom: 1em;">📚 ${getLanguageConfig(language).referencesHeading}</h2>`
+    + `<ul style="list-style: none; padding: 0; margin: 0;">${items.join('')}</ul></div>`;
+}
+
+/**
+ * Removes a source and renumbers the citation markers in the post to match
+ */
+export function removeSource(post: string, sources: Source[], index: number): { post: string; sources: Source[] } {
+  const removed = index + 1;
+  return {
+    post: renumberCitations(post, number => (number === removed ? null : number > removed ? number - 1 : number)),
+    sources: sources.filter((_, i) => i !== index),
+  };
+}
+
+const stripTags = (html: string) =>
+  html.replace(/<[^>]*>/g, '').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/\s+/g, ' ').trim();
+
+const fromTitle = (title: string, url: string, confidence: number): Source => {
+  const { headline, outletName } = splitSourceTitle(title);
+  return { title: headline, outlet: outletName || undefined, url, confidence };
+};
+
+/**
+ * Converts posts saved before sources were structured: plain source titles,
+ * and a references block rendered into the post, which is moved out of the body
+ */
+export function migrateLegacySources(post: string, sources: (Source | string)[] = []): { post: string; sources: Source[] } {
+  const start = post.search(/<div class="references-section"/i);
+  if (start !== -1) {
+    const block = post.slice(start);
+    const parsed = Array.from(block.matchAll(/<li\b([^>]*)>([\s\S]*?)<\/li>/gi)).map(([, attributes, inner]) => {
+      const href = inner.match(/href="([^"]*)"/);
+      const confidence = attributes.match(/data-confidence="([\d.]+)"/);
+      const url = href ? href[1].replace(/&amp;/g, '&') : '';
+      return fromTitle(stripTags(inner).replace(/^\[\d+\]\s*/, ''), url, confidence ? Number(confidence[1]) : url ? 1 : 0);
+    });
+    return { post: post.slice(0, start).trimEnd(), sources: parsed };
+  }
+
+  return {
+    post,
+    sources: sources.map(source => (typeof source === 'string' ? fromTitle(source, '', 0) : source)),
+  };
+}
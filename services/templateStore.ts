@@ -0,0 +1,54 @@
+import type { CustomTemplate, CustomTemplateId } from '../types';
+
+const STORAGE_KEY = 'customTemplates';
+
+/**
+ * Loads user-defined templates from localStorage, ignoring corrupt data
+ */
+export function loadCustomTemplates(): CustomTemplate[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.error('Failed to load custom templates:', err);
+    return [];
+  }
+}
+
+export function saveCustomTemplates(templates: CustomTemplate[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+}
+
+export function createTemplateId(): CustomTemplateId {
+  const id = crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return `custom:${id}`;
+}
+
+export function createEmptyTemplate(): CustomTemplate {
+  const now = Date.now();
+  return {
+    id: createTemplateId(),
+    name: '새 템플릿',
+    persona: '당신은 전문 블로그 작가입니다. 사용자가 제공한 키워드와 관련된 블로그 글을 작성해야 합니다.',
+    sections: [
+      { heading: '개요', guidance: '뉴스를 기반으로 주제의 배경과 최신 동향을 소개합니다.' },
+      { heading: '결론', guidance: '전체 내용을 요약하며 글을 마무리합니다.' },
+    ],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function cloneTemplate(template: CustomTemplate): CustomTemplate {
+  const now = Date.now();
+  return {
+    ...template,
+    id: createTemplateId(),
+    name: `${template.name} (사본)`,
+    sections: template.sections.map(section => ({ ...section })),
+    length: template.length ? { ...template.length } : undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Publishes a finished post to a WordPress site through the REST API (server only).
+ * Authenticates with an Application Password over HTTP Basic auth.
+ */
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+export interface WordPressCredentials {
+  siteUrl: string;
+  username: string;
+  applicationPassword: string;
+}
+
+export type WordPressPostStatus = 'draft' | 'publish';
+
+export interface WordPressPublishRequest {
+  title: string;
+  post: string;
+  tags: string[];
+  status: WordPressPostStatus;
+  /** Uploads the images in the post to the media library (default true) */
+  uploadImages?: boolean;
+  /** This deployment's origin; resolves relative image URLs such as local provider photos */
+  assetBaseUrl?: string;
+}
+
+export interface WordPressPublishResult {
+  id: number;
+  url: string;
+  status: string;
+  tagIds: number[];
+  mediaIds: number[];
+  featuredMediaId?: number;
+  /** Non-fatal problems, e.g. an image that could not be uploaded */
+  warnings: string[];
+}
+
+export class WordPressApiError extends Error {
+  status: number;
+  code: string;
+  data?: { term_id?: number };
+
+  constructor(status: number, code: string, message: string, data?: { term_id?: number }) {
+    super(`WordPress API 오류 (${status}): ${message}`);
+    this.name = 'WordPressApiError';
+    this.status = status;
+    this.code = code;
+    this.data = data;
+  }
+}
+
+/**
+ * The site URL is not https or points into a private network
+ */
+export class UnsafeSiteUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeSiteUrlError';
+  }
+}
+
+interface WordPressTerm {
+  id: number;
+  name: string;
+}
+
+interface WordPressMedia {
+  id: number;
+  source_url: string;
+}
+
+interface WordPressPost {
+  id: number;
+  link: string;
+  status: string;
+}
+
+interface PostFigure {
+  /** src attribute as written in the post, HTML-escaped */
+  src: string;
+  alt: string;
+  caption: string;
+}
+
+/**
+ * Parses WORDPRESS_DEV_HOSTS, a comma-separated list of hosts ("localhost:8787" or
+ * "localhost" for any port) that may be reached over http and on private addresses
+ */
+export function parseDevHosts(value = ''): string[] {
+  return value.split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * True for loopback, private, link-local, shared (CGNAT), unspecified and multicast addresses
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return (
+      a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168)
+    );
+  }
+  const lower = address.toLowerCase();
+  // IPv4-mapped addresses, which URL normalizes to hex ("::ffff:7f00:1")
+  const mapped = lower.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) return isPrivateAddress(mapped[1]);
+    const [high, low] = [parseInt(mapped[2], 16), parseInt(mapped[3], 16)];
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || /^ff/.test(lower);
+}
+
+/**
+ * Rejects site URLs that are not https or resolve to a private address. The URL comes
+ * from the client and receives the credentials, so it must not reach internal services.
+ * Hosts in `devHosts` (WORDPRESS_DEV_HOSTS by default) skip both checks.
+ */
+export async function assertSafeSiteUrl(
+  siteUrl: string,
+  devHosts: string[] = parseDevHosts(process.env.WORDPRESS_DEV_HOSTS)
+): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(siteUrl.trim());
+  } catch {
+    throw new UnsafeSiteUrlError(`사이트 주소가 올바르지 않습니다: ${siteUrl}`);
+  }
+  if (devHosts.includes(url.host) || devHosts.includes(url.hostname)) return;
+
+  if (url.protocol !== 'https:') {
+    throw new UnsafeSiteUrlError('사이트 주소는 https://로 시작해야 합니다.');
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true }).catch(() => [])).map(entry => entry.address);
+  if (addresses.length === 0) {
+    throw new UnsafeSiteUrlError(`사이트 주소를 찾을 수 없습니다: ${url.hostname}`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new UnsafeSiteUrlError(`내부 네트워크 주소로는 발행할 수 없습니다: ${url.hostname}`);
+  }
+}
+
+const apiBase = (siteUrl: string) => `${siteUrl.trim().replace(/\/+$/, '')}/wp-json/wp/v2`;
+
+const authHeader = ({ username, applicationPassword }: WordPressCredentials) =>
+  `Basic ${Buffer.from(`${username}:${applicationPassword}`).toString('base64')}`;
+
+async function wpRequest<T>(credentials: WordPressCredentials, path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${apiBase(credentials.siteUrl)}${path}`, {
+    ...init,
+    // Checked by assertSafeSiteUrl; a redirect would send the credentials elsewhere
+    redirect: 'error',
+    headers: {
+      Authorization: authHeader(credentials),
+      ...(typeof init.body === 'string' ? { 'Content-Type': 'application/json' } : {}),
+      ...init.headers,
+    },
+  });
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    // Only WordPress error bodies are passed on; anything else is reported by status
+    const isWordPressError = typeof data?.code === 'string' && typeof data?.message === 'string';
+    throw isWordPressError
+      ? new WordPressApiError(response.status, data.code, data.message, data.data)
+      : new WordPressApiError(response.status, 'unknown', response.statusText);
+  }
+  return data as T;
+}
+
+/**
+ * Finds each tag by exact name or creates it, returning the WordPress term ids
+ */
+async function resolveTagIds(credentials: WordPressCredentials, tags: string[]): Promise<number[]> {
+  const ids: number[] = [];
+  for (const name of tags) {
+    const matches = await wpRequest<WordPressTerm[]>(credentials, `/tags?search=${encodeURIComponent(name)}&per_page=100`);
+    const existing = matches.find(term => term.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      ids.push(existing.id);
+      continue;
+    }
+
+    try {
+      const created = await wpRequest<WordPressTerm>(credentials, '/tags', {
+        method: 'POST',
+        body: JSON.stringify({ name }),
+      });
+      ids.push(created.id);
+    } catch (error) {
+      // Search misses terms whose slug differs from the name; WordPress then reports the existing id
+      if (error instanceof WordPressApiError && error.code === 'term_exists' && error.data?.term_id) {
+        ids.push(error.data.term_id);
+      } else {
+        throw error;
+      }
+    }
+  }
+  return Array.from(new Set(ids));
+}
+
+const decodeAttribute = (value: string) =>
+  value.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+function extractFigures(post: string): PostFigure[] {
+  const figures: PostFigure[] = [];
+  for (const match of post.matchAll(/<figure\b[^>]*>([\s\S]*?)<\/figure>/gi)) {
+    const inner = match[1];
+    const src = inner.match(/<img\b[^>]*\bsrc="([^"]+)"/i)?.[1];
+    if (!src) continue;
+    figures.push({
+      src,
+      alt: decodeAttribute(inner.match(/<img\b[^>]*\balt="([^"]*)"/i)?.[1] || ''),
+      caption: inner.match(/<figcaption\b[^>]*>([\s\S]*?)<\/figcaption>/i)?.[1].trim() || '',
+    });
+  }
+  return figures;
+}
+
+function fileNameFromUrl(url: URL, index: number, contentType: string): string {
+  const last = decodeURIComponent(url.pathname.split('/').pop() || '');
+  if (/\.(jpe?g|png|gif|webp|avif)$/i.test(last)) return last;
+  const extension = contentType.split('/')[1]?.split(';')[0] || 'jpg';
+  return `blog-image-${index + 1}.${extension === 'jpeg' ? 'jpg' : extension}`;
+}
+
+// CDNs the image providers serve photos from
+const IMAGE_PROVIDER_HOSTS = new Set(['images.pexels.com', 'images.unsplash.com']);
+
+/**
+ * Resolves an image URL from the post. The post comes from the client, so only the
+ * image providers' CDNs and this deployment are downloaded from.
+ */
+function resolveImageUrl(src: string, assetBaseUrl?: string): URL {
+  const url = new URL(decodeAttribute(src), assetBaseUrl);
+  const isOwnAsset = !!assetBaseUrl && url.origin === new URL(assetBaseUrl).origin;
+  if (!isOwnAsset && !(url.protocol === 'https:' && IMAGE_PROVIDER_HOSTS.has(url.hostname))) {
+    throw new Error(`허용되지 않은 이미지 주소입니다: ${src}`);
+  }
+  return url;
+}
+
+/**
+ * Downloads an image and uploads it to the media library with its alt text and attribution caption
+ */
+async function uploadFigure(
+  credentials: WordPressCredentials,
+  figure: PostFigure,
+  index: number,
+  assetBaseUrl?: string
+): Promise<WordPressMedia> {
+  const url = resolveImageUrl(figure.src, assetBaseUrl);
+  // A redirect could lead anywhere, so it is not followed
+  const imageResponse = await fetch(url, { redirect: 'error' });
+  if (!imageResponse.ok) {
+    throw new Error(`이미지 다운로드 실패: ${imageResponse.status} ${url}`);
+  }
+  const contentType = imageResponse.headers.get('content-type') || 'image/jpeg';
+  const fileName = fileNameFromUrl(url, index, contentType);
+
+  const media = await wpRequest<WordPressMedia>(credentials, '/media', {
+    method: 'POST',
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+    },
+    body: Buffer.from(await imageResponse.arrayBuffer()),
+  });
+
+  await wpRequest<WordPressMedia>(credentials, `/media/${media.id}`, {
+    method: 'POST',
+    body: JSON.stringify({ alt_text: figure.alt, caption: figure.caption }),
+  });
+
+  return media;
+}
+
+/**
+ * Creates a draft or published post. Tags are mapped to WordPress tags, images in the
+ * post are re-hosted in the media library and the first one becomes the featured image.
+ */
+export async function publishToWordPress(
+  credentials: WordPressCredentials,
+  request: WordPressPublishRequest
+): Promise<WordPressPublishResult> {
+  const { title, tags, status, uploadImages = true, assetBaseUrl } = request;
+  let content = request.post;
+  const warnings: string[] = [];
+  const mediaIds: number[] = [];
+
+  await assertSafeSiteUrl(credentials.siteUrl);
+  const tagIds = await resolveTagIds(credentials, tags);
+
+  if (uploadImages) {
+    const figures = extractFigures(content);
+    for (const [index, figure] of figures.entries()) {
+      try {
+        const media = await uploadFigure(credentials, figure, index, assetBaseUrl);
+        mediaIds.push(media.id);
+        content = content.split(`src="${figure.src}"`).join(`src="${media.source_url}" class="wp-image-${media.id}"`);
+      } catch (error) {
+        // An auth failure will fail the post as well, so stop instead of collecting warnings
+        if (error instanceof WordPressApiError && (error.status === 401 || error.status === 403)) throw error;
+        console.error('Failed to upload image to WordPress:', error);
+        warnings.push(`이미지를 업로드하지 못해 원본 주소를 유지했습니다: ${figure.src}`);
+      }
+    }
+  }
+
+  const featuredMediaId = mediaIds[0];
+  const created = await wpRequest<WordPressPost>(credentials, '/posts', {
+    method: 'POST',
+    body: JSON.stringify({
+      title,
+      content,
+      status,
+      tags: tagIds,
+      ...(featuredMediaId ? { featured_media: featuredMediaId } : {}),
+    }),
+  });
+
+  return {
+    id: created.id,
+    url: created.link,
+    status: created.status,
+    tagIds,
+    mediaIds,
+    featuredMediaId,
+    warnings,
+  };
+}
@@ -0,0 +1,89 @@
+export type DateRange = 'all' | 'day' | 'week' | 'month' | 'year';
+export type BuiltInTemplate = 'default' | 'review' | 'interview' | 'qa' | 'investment';
+export type CustomTemplateId = `custom:${string}`;
+export type Template = BuiltInTemplate | CustomTemplateId;
+export type Language = 'ko' | 'en' | 'ja';
+export type LengthPreset = 'short' | 'standard' | 'long' | 'custom';
+
+/** Target body length in Korean characters, excluding images and references */
+export interface LengthTarget {
+  min: number;
+  max: number;
+}
+
+export interface TemplateSection {
+  heading: string;
+  guidance: string;
+}
+
+/**
+ * A user-defined template. The prompt is built from the persona line and the
+ * ordered sections, then merged with the shared output instructions.
+ */
+export interface CustomTemplate {
+  id: CustomTemplateId;
+  name: string;
+  persona: string;
+  sections: TemplateSection[];
+  /** Overrides the default 3,000-4,000 character body length */
+  length?: LengthTarget;
+  /** Overrides the default of 10 tags */
+  tagCount?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A news article the post is based on, linked to a page the model searched
+ */
+export interface Source {
+  /** Headline without the outlet name */
+  title: string;
+  outlet?: string;
+  /** Empty when no searched page matched the headline */
+  url: string;
+  /** How sure the headline-to-URL match is (0-1); 1 once an editor confirms it */
+  confidence: number;
+  /** ISO date the page was retrieved, used by APA-style citations */
+  accessedAt?: string;
+}
+
+export type CitationStyle = 'list' | 'numbered' | 'apa';
+
+export interface BlogResult {
+  title: string;
+  post: string;
+  tags: string[];
+  imageKeywords?: string[];
+  sources?: Source[];
+  citationStyle?: CitationStyle; // 없으면 번호 목록
+  originalPost?: string; // 이미지가 없는 원본 포스트
+  language?: Language; // 없으면 한국어
+  lengthTarget?: LengthTarget;
+}
+
+export type GenerationStage = 'searching' | 'writing' | 'tagging' | 'sourcing';
+
+/**
+ * Snapshot of a post while it streams in. `post` is partial HTML that may stop mid-paragraph.
+ */
+export interface GenerationProgress {
+  stage: GenerationStage;
+  title?: string;
+  post?: string;
+}
+
+/**
+ * A saved WordPress site. The Application Password is kept in this browser
+ * only and sent to the server when publishing.
+ */
+export interface WordPressSiteProfile {
+  id: string;
+  name: string;
+  siteUrl: string;
+  username: string;
+  applicationPassword: string;
+  defaultStatus: 'draft' | 'publish';
+  createdAt: number;
+  updatedAt: number;
+}